@@ -2,11 +2,14 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
-import Index from "./pages/Index";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import Dashboard from "@/components/Dashboard";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
+import TopicSettings from "./pages/TopicSettings";
+import SessionResults from "./pages/SessionResults";
 
 const queryClient = new QueryClient();
 
@@ -18,8 +21,19 @@ const App = () => (
         <Sonner />
         <BrowserRouter>
           <Routes>
-            <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
+            <Route element={<ProtectedRoute />}>
+              <Route path="/" element={<Navigate to="/topics" replace />} />
+              <Route path="/topics" element={<Dashboard view="browse" />} />
+              <Route path="/topics/:topicId" element={<Dashboard view="topic" />} />
+              <Route path="/topics/:topicId/quiz" element={<Dashboard view="quiz" />} />
+              <Route path="/topics/:topicId/settings" element={<TopicSettings />} />
+              <Route path="/review" element={<Dashboard view="review" />} />
+              <Route path="/create" element={<Dashboard view="create" />} />
+              <Route path="/moderate" element={<Dashboard view="moderate" />} />
+              <Route path="/history" element={<Dashboard view="history" />} />
+              <Route path="/sessions/:sessionId" element={<SessionResults />} />
+            </Route>
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyRound } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+interface AnswerKey {
+  correct_answer: string;
+  accepted_answers: string[];
+  answer_patterns: string[];
+  answer_mode: 'single' | 'set';
+}
+
+interface AnswerKeyEditorProps {
+  questionId: string;
+}
+
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+// Lets a topic owner widen what counts as a correct answer to one of their questions
+const AnswerKeyEditor = ({ questionId }: AnswerKeyEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [key, setKey] = useState<AnswerKey | null>(null);
+  const [acceptedAnswers, setAcceptedAnswers] = useState('');
+  const [answerPatterns, setAnswerPatterns] = useState('');
+  const [answerMode, setAnswerMode] = useState<AnswerKey['answer_mode']>('single');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyKey = (loaded: AnswerKey) => {
+    setKey(loaded);
+    setAcceptedAnswers(toLines(loaded.accepted_answers));
+    setAnswerPatterns(toLines(loaded.answer_patterns));
+    setAnswerMode(loaded.answer_mode);
+  };
+
+  const loadKey = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke<{ key: AnswerKey }>('answer-key', {
+        body: { questionId }
+      });
+
+      if (error) throw error;
+      applyKey(data.key);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+      setOpen(false);
+    }
+  };
+
+  const saveKey = async () => {
+    setIsSaving(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke<{ key: AnswerKey; rescored: number }>('answer-key', {
+        body: {
+          questionId,
+          update: {
+            accepted_answers: fromLines(acceptedAnswers),
+            answer_patterns: fromLines(answerPatterns),
+            answer_mode: answerMode
+          }
+        }
+      });
+
+      if (error) throw error;
+      applyKey(data.key);
+
+      toast({
+        title: "Answer key updated",
+        description: data.rescored > 0
+          ? `${data.rescored} past answer${data.rescored === 1 ? ' was' : 's were'} re-graded against these alternatives.`
+          : "New answers will be graded against these alternatives."
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setKey(null);
+      loadKey();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <KeyRound className="w-4 h-4 mr-2" />
+          Edit Accepted Answers
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accepted Answers</DialogTitle>
+          <DialogDescription>
+            {key ? <>Correct answer: <strong>{key.correct_answer}</strong></> : 'Loading answer key...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="accepted-answers">Also accept (one per line)</Label>
+            <Textarea
+              id="accepted-answers"
+              value={acceptedAnswers}
+              onChange={(e) => setAcceptedAnswers(e.target.value)}
+              placeholder="e.g., water"
+              rows={3}
+              disabled={!key}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="answer-patterns">Patterns (regular expressions, one per line)</Label>
+            <Textarea
+              id="answer-patterns"
+              value={answerPatterns}
+              onChange={(e) => setAnswerPatterns(e.target.value)}
+              placeholder="e.g., h\s*2\s*o"
+              rows={2}
+              className="font-mono"
+              disabled={!key}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Answer format</Label>
+            <Select
+              value={answerMode}
+              onValueChange={(value) => setAnswerMode(value as AnswerKey['answer_mode'])}
+              disabled={!key}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">Single answer</SelectItem>
+                <SelectItem value="set">List, in any order</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={saveKey} disabled={!key || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AnswerKeyEditor;
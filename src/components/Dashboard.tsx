@@ -1,39 +1,73 @@
 import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
-import { Plus, Play, BookOpen, Trophy, Brain, TrendingUp, User, LogOut } from 'lucide-react';
+import { Plus, Play, BookOpen, Trophy, Brain, TrendingUp, User, LogOut, RotateCcw, Settings, ChevronRight, ArrowLeft } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import TopicCreator from './TopicCreator';
 import QuizInterface from './QuizInterface';
+import GenerationJobProgress from './GenerationJobProgress';
+import DuplicateClusters from './DuplicateClusters';
+import ModerationQueue from './ModerationQueue';
+import QuestionEditor from './QuestionEditor';
+import { TOPIC_VISIBILITY_LABELS, type TopicVisibility } from '@/lib/topicVisibility';
 
 interface Topic {
   id: string;
   title: string;
   description: string;
   created_at: string;
+  created_by: string | null;
   is_public: boolean;
+  visibility: string;
+  archived_at: string | null;
 }
 
 interface QuizSession {
   id: string;
-  topic_id: string;
+  topic_id: string | null;
   total_questions: number;
-  correct_answers: number;
+  // Null while an exam that shows feedback at the end is still running
+  correct_answers: number | null;
+  total_score: number | null;
   started_at: string;
   completed_at: string | null;
-  topics: { title: string };
+  topics: { title: string } | null;
 }
 
-const Dashboard = () => {
+type DashboardView = 'browse' | 'topic' | 'quiz' | 'review' | 'create' | 'moderate' | 'history';
+
+interface DashboardProps {
+  view: DashboardView;
+}
+
+const TAB_PATHS: Record<string, string> = {
+  browse: '/topics',
+  review: '/review',
+  create: '/create',
+  moderate: '/moderate',
+  history: '/history'
+};
+
+// Each tab has its own route, so topics, quizzes and history can be bookmarked and shared
+const Dashboard = ({ view }: DashboardProps) => {
+  const { topicId } = useParams<{ topicId: string }>();
+  const navigate = useNavigate();
   const { user, signOut, getUserProfile } = useAuth();
-  const [activeTab, setActiveTab] = useState('browse');
+  const activeTab = view === 'topic' ? 'browse' : view;
   const [topics, setTopics] = useState<Topic[]>([]);
   const [userSessions, setUserSessions] = useState<QuizSession[]>([]);
-  const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
+  const [topicMastery, setTopicMastery] = useState<Record<string, number>>({});
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+  const [pendingModerationCount, setPendingModerationCount] = useState(0);
+  const [generationJobs, setGenerationJobs] = useState<Record<string, string>>({});
+  const [isReviewing, setIsReviewing] = useState(false);
+  // Undefined while the topic in the URL is still being looked up
+  const [selectedTopic, setSelectedTopic] = useState<Topic | null | undefined>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userProfile, setUserProfile] = useState<any>(null);
 
@@ -41,6 +75,29 @@ const Dashboard = () => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (!topicId) {
+      setSelectedTopic(null);
+      return;
+    }
+    if (isLoading) return;
+
+    const listed = topics.find((topic) => topic.id === topicId);
+    if (listed) {
+      setSelectedTopic(listed);
+      return;
+    }
+
+    // Unlisted topics are reachable by link without appearing in Browse Topics
+    setSelectedTopic(undefined);
+    supabase
+      .from('topics')
+      .select('*')
+      .eq('id', topicId)
+      .maybeSingle()
+      .then(({ data }) => setSelectedTopic(data));
+  }, [topicId, topics, isLoading]);
+
   const loadData = async () => {
     setIsLoading(true);
     try {
@@ -48,13 +105,18 @@ const Dashboard = () => {
       const profile = await getUserProfile();
       setUserProfile(profile);
 
-      // Load topics
-      const { data: topicsData } = await supabase
+      // Load listed topics, plus the user's own whatever their visibility
+      let topicsQuery = supabase
         .from('topics')
         .select('*')
-        .eq('is_public', true)
         .order('created_at', { ascending: false });
 
+      topicsQuery = profile
+        ? topicsQuery.or(`and(visibility.eq.public,archived_at.is.null),created_by.eq.${profile.id}`)
+        : topicsQuery.eq('visibility', 'public').is('archived_at', null);
+
+      const { data: topicsData } = await topicsQuery;
+
       if (topicsData) {
         setTopics(topicsData);
       }
@@ -62,10 +124,10 @@ const Dashboard = () => {
       // Load user quiz sessions
       if (profile) {
         const { data: sessionsData } = await supabase
-          .from('quiz_sessions')
+          .from('learner_quiz_sessions')
           .select(`
             *,
-            topics!inner(title)
+            topics(title)
           `)
           .eq('user_id', profile.id)
           .order('started_at', { ascending: false })
@@ -74,6 +136,43 @@ const Dashboard = () => {
         if (sessionsData) {
           setUserSessions(sessionsData);
         }
+
+        // Load per-topic mastery estimates
+        const { data: masteryData } = await supabase
+          .from('topic_mastery')
+          .select('topic_id, mastery')
+          .eq('user_id', profile.id);
+
+        if (masteryData) {
+          setTopicMastery(Object.fromEntries(masteryData.map((row) => [row.topic_id, row.mastery])));
+        }
+
+        // Count spaced repetition reviews that are due now
+        const { count: dueCount } = await supabase
+          .from('review_items')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', profile.id)
+          .lte('due_at', new Date().toISOString());
+
+        setDueReviewCount(dueCount ?? 0);
+
+        // Question batches still being generated for the user's topics
+        const { data: jobsData } = await supabase
+          .from('generation_jobs')
+          .select('id, topic_id')
+          .eq('requested_by', profile.id)
+          .in('status', ['queued', 'running']);
+
+        setGenerationJobs(Object.fromEntries((jobsData ?? []).map((job) => [job.topic_id, job.id])));
+
+        // Generated questions waiting for the user's approval, and questions paused by learner reports
+        const { count: pendingCount } = await supabase
+          .from('questions')
+          .select('id, topics!inner(created_by)', { count: 'exact', head: true })
+          .in('status', ['draft', 'quarantined'])
+          .eq('topics.created_by', profile.id);
+
+        setPendingModerationCount(pendingCount ?? 0);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -83,25 +182,85 @@ const Dashboard = () => {
   };
 
   const startQuiz = (topic: Topic) => {
-    setSelectedTopic(topic);
-    setActiveTab('quiz');
+    navigate(`/topics/${topic.id}/quiz`);
   };
 
   const onQuizComplete = () => {
-    setSelectedTopic(null);
-    setActiveTab('browse');
+    navigate('/topics');
     loadData(); // Refresh data to show new session
   };
 
+  const onTopicBranched = (topic: Topic) => {
+    navigate(`/topics/${topic.id}/quiz`);
+  };
+
+  const onReviewComplete = () => {
+    setIsReviewing(false);
+    loadData(); // Refresh due reviews and history
+  };
+
   const onTopicCreated = () => {
-    setActiveTab('browse');
+    navigate('/topics');
     loadData(); // Refresh topics list
   };
 
+  const renderTopicCard = (topic: Topic) => (
+    <Card key={topic.id} className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="line-clamp-2">
+          <Link to={`/topics/${topic.id}`} className="hover:underline">{topic.title}</Link>
+        </CardTitle>
+        <CardDescription className="line-clamp-3">
+          {topic.description || 'No description available'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {generationJobs[topic.id] && (
+          <div className="mb-4">
+            <GenerationJobProgress jobId={generationJobs[topic.id]} onFinished={loadData} />
+          </div>
+        )}
+        {topicMastery[topic.id] !== undefined && (
+          <div className="space-y-1 mb-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Mastery</span>
+              <span className="font-medium">{Math.round(topicMastery[topic.id] * 100)}%</span>
+            </div>
+            <Progress value={topicMastery[topic.id] * 100} />
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <Badge variant="secondary">
+            {topic.archived_at ? 'Archived' : TOPIC_VISIBILITY_LABELS[topic.visibility as TopicVisibility]?.label}
+          </Badge>
+          <div className="flex gap-2">
+            {topic.created_by === userProfile?.id && (
+              <>
+                <QuestionEditor topicId={topic.id} topicTitle={topic.title} profileId={userProfile.id} />
+                <DuplicateClusters topicId={topic.id} topicTitle={topic.title} />
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={`/topics/${topic.id}/settings`} aria-label="Topic settings">
+                    <Settings className="w-4 h-4" />
+                  </Link>
+                </Button>
+              </>
+            )}
+            <Button size="sm" onClick={() => startQuiz(topic)} disabled={!!topic.archived_at}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Quiz
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   const getTotalStats = () => {
     const totalQuestions = userSessions.reduce((sum, session) => sum + session.total_questions, 0);
-    const totalCorrect = userSessions.reduce((sum, session) => sum + session.correct_answers, 0);
-    const accuracy = totalQuestions > 0 ? Math.round((totalCorrect / totalQuestions) * 100) : 0;
+    const totalCorrect = userSessions.reduce((sum, session) => sum + (session.correct_answers ?? 0), 0);
+    // Partial credit counts towards accuracy
+    const totalScore = userSessions.reduce((sum, session) => sum + (session.total_score ?? 0), 0);
+    const accuracy = totalQuestions > 0 ? Math.round((totalScore / totalQuestions) * 100) : 0;
     
     return { totalQuestions, totalCorrect, accuracy, totalSessions: userSessions.length };
   };
@@ -197,10 +356,20 @@ const Dashboard = () => {
         </div>
 
         {/* Main Content */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs
+          value={activeTab}
+          onValueChange={(tab) => navigate(tab === 'quiz' && selectedTopic ? `/topics/${selectedTopic.id}/quiz` : TAB_PATHS[tab])}
+          className="space-y-6"
+        >
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="browse">Browse Topics</TabsTrigger>
+            <TabsTrigger value="review">
+              Review{dueReviewCount > 0 && ` (${dueReviewCount})`}
+            </TabsTrigger>
             <TabsTrigger value="create">Create Topic</TabsTrigger>
+            <TabsTrigger value="moderate">
+              Moderate{pendingModerationCount > 0 && ` (${pendingModerationCount})`}
+            </TabsTrigger>
             <TabsTrigger value="history">Quiz History</TabsTrigger>
             <TabsTrigger value="quiz" disabled={!selectedTopic}>
               {selectedTopic ? 'Take Quiz' : 'Quiz'}
@@ -208,47 +377,79 @@ const Dashboard = () => {
           </TabsList>
 
           <TabsContent value="browse" className="space-y-4">
-            <div className="flex items-center justify-between">
-              <h2 className="text-2xl font-semibold">Available Topics</h2>
-              <Button onClick={() => setActiveTab('create')}>
-                <Plus className="w-4 h-4 mr-2" />
-                Create New Topic
-              </Button>
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {topics.map((topic) => (
-                <Card key={topic.id} className="hover:shadow-lg transition-shadow">
-                  <CardHeader>
-                    <CardTitle className="line-clamp-2">{topic.title}</CardTitle>
-                    <CardDescription className="line-clamp-3">
-                      {topic.description || 'No description available'}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="flex items-center justify-between">
-                      <Badge variant="secondary">Public</Badge>
-                      <Button size="sm" onClick={() => startQuiz(topic)}>
-                        <Play className="w-4 h-4 mr-2" />
-                        Start Quiz
+            {view === 'topic' ? (
+              <>
+                <Button variant="ghost" asChild>
+                  <Link to="/topics">
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    All Topics
+                  </Link>
+                </Button>
+                {selectedTopic === undefined ? (
+                  <p className="text-muted-foreground">Loading topic...</p>
+                ) : selectedTopic ? (
+                  <div className="max-w-xl">{renderTopicCard(selectedTopic)}</div>
+                ) : (
+                  <Card>
+                    <CardContent className="p-8 text-center">
+                      <p>Topic not found.</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-semibold">Available Topics</h2>
+                  <Button onClick={() => navigate('/create')}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create New Topic
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {topics.map(renderTopicCard)}
+                </div>
+
+                {topics.length === 0 && (
+                  <Card>
+                    <CardContent className="p-8 text-center">
+                      <BookOpen className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                      <h3 className="text-lg font-semibold mb-2">No Topics Available</h3>
+                      <p className="text-muted-foreground mb-4">
+                        Be the first to create a learning topic!
+                      </p>
+                      <Button onClick={() => navigate('/create')}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Create First Topic
                       </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            )}
+          </TabsContent>
 
-            {topics.length === 0 && (
+          <TabsContent value="review" className="space-y-4">
+            {isReviewing ? (
+              <QuizInterface
+                topicTitle="Review"
+                mode="review"
+                onQuizComplete={onReviewComplete}
+              />
+            ) : (
               <Card>
                 <CardContent className="p-8 text-center">
-                  <BookOpen className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                  <h3 className="text-lg font-semibold mb-2">No Topics Available</h3>
+                  <RotateCcw className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-lg font-semibold mb-2">
+                    {dueReviewCount > 0 ? `${dueReviewCount} questions due for review` : 'No Reviews Due'}
+                  </h3>
                   <p className="text-muted-foreground mb-4">
-                    Be the first to create a learning topic!
+                    Questions come back on a spaced repetition schedule, sooner when you miss them.
                   </p>
-                  <Button onClick={() => setActiveTab('create')}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Create First Topic
+                  <Button onClick={() => setIsReviewing(true)} disabled={dueReviewCount === 0}>
+                    <Play className="w-4 h-4 mr-2" />
+                    Start Review
                   </Button>
                 </CardContent>
               </Card>
@@ -259,35 +460,48 @@ const Dashboard = () => {
             <TopicCreator onTopicCreated={onTopicCreated} />
           </TabsContent>
 
+          <TabsContent value="moderate" className="space-y-4">
+            <h2 className="text-2xl font-semibold">Questions Awaiting Review</h2>
+            {userProfile && <ModerationQueue profileId={userProfile.id} onQuestionModerated={() => setPendingModerationCount((count) => Math.max(count - 1, 0))} />}
+          </TabsContent>
+
           <TabsContent value="history" className="space-y-4">
             <h2 className="text-2xl font-semibold">Quiz History</h2>
             
             <div className="space-y-3">
               {userSessions.map((session) => {
-                const accuracy = session.total_questions > 0 
-                  ? Math.round((session.correct_answers / session.total_questions) * 100) 
+                const withheld = session.total_score === null;
+                const accuracy = !withheld && session.total_questions > 0 
+                  ? Math.round((session.total_score / session.total_questions) * 100) 
                   : 0;
 
                 return (
-                  <Card key={session.id}>
-                    <CardContent className="p-4">
-                      <div className="flex items-center justify-between">
-                        <div className="space-y-1">
-                          <h3 className="font-semibold">{session.topics.title}</h3>
-                          <p className="text-sm text-muted-foreground">
-                            {new Date(session.started_at).toLocaleDateString()} • {session.total_questions} questions
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <div className="text-2xl font-bold">{accuracy}%</div>
-                          <div className="text-sm text-muted-foreground">
-                            {session.correct_answers}/{session.total_questions}
+                  <Link key={session.id} to={`/sessions/${session.id}`} className="block">
+                    <Card className="hover:shadow-lg transition-shadow">
+                      <CardContent className="p-4">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-1">
+                            <h3 className="font-semibold">{session.topics?.title ?? 'Review session'}</h3>
+                            <p className="text-sm text-muted-foreground">
+                              {new Date(session.started_at).toLocaleDateString()} • {session.total_questions} questions
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <div className="text-right">
+                              <div className="text-2xl font-bold">{withheld ? '—' : `${accuracy}%`}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {withheld
+                                  ? 'Graded at the end'
+                                  : `${Math.round(session.total_score * 10) / 10}/${session.total_questions}`}
+                              </div>
+                            </div>
+                            <ChevronRight className="w-5 h-5 text-muted-foreground" />
                           </div>
                         </div>
-                      </div>
-                      <Progress value={accuracy} className="mt-3" />
-                    </CardContent>
-                  </Card>
+                        <Progress value={accuracy} className="mt-3" />
+                      </CardContent>
+                    </Card>
+                  </Link>
                 );
               })}
             </div>
@@ -300,7 +514,7 @@ const Dashboard = () => {
                   <p className="text-muted-foreground mb-4">
                     Start taking quizzes to see your progress here!
                   </p>
-                  <Button onClick={() => setActiveTab('browse')}>
+                  <Button onClick={() => navigate('/topics')}>
                     <Play className="w-4 h-4 mr-2" />
                     Browse Topics
                   </Button>
@@ -310,16 +524,20 @@ const Dashboard = () => {
           </TabsContent>
 
           <TabsContent value="quiz">
-            {selectedTopic ? (
+            {selectedTopic === undefined ? (
+              <p className="text-muted-foreground">Loading topic...</p>
+            ) : selectedTopic ? (
               <QuizInterface
+                key={selectedTopic.id}
                 topicId={selectedTopic.id}
                 topicTitle={selectedTopic.title}
                 onQuizComplete={onQuizComplete}
+                onBranch={onTopicBranched}
               />
             ) : (
               <Card>
                 <CardContent className="p-8 text-center">
-                  <p>Please select a topic to start a quiz.</p>
+                  <p>{topicId ? 'Topic not found.' : 'Please select a topic to start a quiz.'}</p>
                 </CardContent>
               </Card>
             )}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Copy, GitMerge } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+interface ClusterQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  difficulty: string;
+  correct_answer: string;
+  created_at: string;
+}
+
+interface QuestionCluster {
+  similarity: number;
+  questions: ClusterQuestion[];
+}
+
+interface DuplicateClustersProps {
+  topicId: string;
+  topicTitle: string;
+}
+
+// Lets a topic owner review groups of near-duplicate questions and merge each into one
+const DuplicateClusters = ({ topicId, topicTitle }: DuplicateClustersProps) => {
+  const [open, setOpen] = useState(false);
+  const [clusters, setClusters] = useState<QuestionCluster[] | null>(null);
+  const [keepIds, setKeepIds] = useState<Record<number, string>>({});
+  const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+
+  const loadClusters = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke<{ clusters: QuestionCluster[] }>('question-clusters', {
+        body: { topicId }
+      });
+
+      if (error) throw error;
+      setClusters(data.clusters);
+      // Default to keeping the oldest question, which has the longest answer history
+      setKeepIds(Object.fromEntries(data.clusters.map((cluster, index) => [index, cluster.questions[0].id])));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+      setOpen(false);
+    }
+  };
+
+  const mergeCluster = async (index: number) => {
+    const cluster = clusters?.[index];
+    const keepId = keepIds[index];
+    if (!cluster || !keepId) return;
+
+    setMergingIndex(index);
+
+    try {
+      const { error } = await supabase.functions.invoke('question-clusters', {
+        body: {
+          topicId,
+          merge: {
+            keepId,
+            mergeIds: cluster.questions.filter((question) => question.id !== keepId).map((question) => question.id)
+          }
+        }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Questions merged",
+        description: `${cluster.questions.length - 1} duplicate${cluster.questions.length > 2 ? 's' : ''} merged into the kept question.`
+      });
+      await loadClusters();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setMergingIndex(null);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setClusters(null);
+      loadClusters();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Copy className="w-4 h-4 mr-2" />
+          Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Similar Questions in {topicTitle}</DialogTitle>
+          <DialogDescription>
+            Merging keeps one question and moves every learner's answers and reviews over to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!clusters && <p className="text-sm text-muted-foreground">Looking for similar questions...</p>}
+
+        {clusters?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No near-duplicate questions found.</p>
+        )}
+
+        <div className="space-y-4">
+          {clusters?.map((cluster, index) => (
+            <Card key={cluster.questions.map((question) => question.id).join(':')}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center justify-between">
+                  {cluster.questions.length} similar questions
+                  <Badge variant="secondary">{Math.round(cluster.similarity * 100)}% similar</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <RadioGroup
+                  value={keepIds[index]}
+                  onValueChange={(value) => setKeepIds({ ...keepIds, [index]: value })}
+                >
+                  {cluster.questions.map((question) => (
+                    <div key={question.id} className="flex items-start space-x-2">
+                      <RadioGroupItem value={question.id} id={`keep-${question.id}`} className="mt-1" />
+                      <Label htmlFor={`keep-${question.id}`} className="font-normal space-y-1">
+                        <span className="block">{question.question_text}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {question.question_type} • {question.difficulty} • Answer: {question.correct_answer}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                <Button
+                  size="sm"
+                  onClick={() => mergeCluster(index)}
+                  disabled={mergingIndex !== null}
+                >
+                  <GitMerge className="w-4 h-4 mr-2" />
+                  {mergingIndex === index ? 'Merging...' : 'Keep Selected & Merge Others'}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateClusters;
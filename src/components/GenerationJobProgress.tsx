@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Sparkles } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+type GenerationJob = Pick<
+  Tables<'generation_jobs'>,
+  'id' | 'status' | 'total_items' | 'completed_items' | 'failed_items' | 'error' | 'updated_at'
+>;
+
+interface GenerationJobProgressProps {
+  jobId: string;
+  onFinished?: (job: GenerationJob) => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+// A job that has made no progress for this long has lost its worker; the server fails it on its next sweep
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+const isStale = (job: GenerationJob) =>
+  (job.status === 'queued' || job.status === 'running') &&
+  Date.now() - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+
+// Follows a generate-question-batch job until it completes or fails
+const GenerationJobProgress = ({ jobId, onFinished }: GenerationJobProgressProps) => {
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  // Kept in a ref so a new callback from the parent doesn't restart polling
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const poll = async () => {
+      const { data } = await supabase
+        .from('generation_jobs')
+        .select('id, status, total_items, completed_items, failed_items, error, updated_at')
+        .eq('id', jobId)
+        .single();
+
+      if (cancelled) return;
+      if (data) {
+        const current = isStale(data)
+          ? { ...data, status: 'failed', error: 'Question generation stopped responding' }
+          : data;
+        setJob(current);
+        if (current.status === 'completed' || current.status === 'failed') {
+          onFinishedRef.current?.(current);
+          return;
+        }
+      }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const processed = job ? job.completed_items + job.failed_items : 0;
+  const percent = job && job.total_items > 0 ? (processed / job.total_items) * 100 : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <Sparkles className="w-4 h-4 text-primary" />
+          {job?.status === 'completed' && 'Questions ready'}
+          {job?.status === 'failed' && (job.error || 'Question generation failed')}
+          {(!job || job.status === 'queued' || job.status === 'running') && 'Generating questions...'}
+        </span>
+        {job && (
+          <span className="font-medium">
+            {job.completed_items}/{job.total_items}
+            {job.failed_items > 0 && ` (${job.failed_items} failed)`}
+          </span>
+        )}
+      </div>
+      <Progress value={percent} />
+    </div>
+  );
+};
+
+export default GenerationJobProgress;
@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Archive, Check, ClipboardCheck, Flag, Pencil, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { REPORT_REASON_LABELS } from '@/lib/questionReports';
+
+interface QuestionReport {
+  id: string;
+  reason: string;
+  details: string | null;
+  created_at: string;
+}
+
+interface PendingQuestion {
+  id: string;
+  status: string;
+  topic_id: string;
+  topic_title: string;
+  question_text: string;
+  question_type: string;
+  difficulty: string;
+  correct_answer: string;
+  options: string[] | null;
+  rationale: string | null;
+  source_passage: string | null;
+  reports: QuestionReport[];
+}
+
+interface OwnedTopic {
+  id: string;
+  title: string;
+  auto_publish: boolean;
+}
+
+interface QuestionEdits {
+  question_text: string;
+  correct_answer: string;
+  options: string[] | null;
+  rationale: string;
+}
+
+interface ModerationQueueProps {
+  profileId: string;
+  onQuestionModerated?: () => void;
+}
+
+// Lets topic owners approve, edit or reject AI-generated questions before learners see them,
+// and resolve questions learners have reported
+const ModerationQueue = ({ profileId, onQuestionModerated }: ModerationQueueProps) => {
+  const [questions, setQuestions] = useState<PendingQuestion[] | null>(null);
+  const [ownedTopics, setOwnedTopics] = useState<OwnedTopic[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [edits, setEdits] = useState<QuestionEdits | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [reported, drafts, { data: topicsData }] = await Promise.all([
+        supabase.functions.invoke<{ questions: PendingQuestion[] }>('moderate-questions', {
+          body: { action: 'list', status: 'reported' }
+        }),
+        supabase.functions.invoke<{ questions: PendingQuestion[] }>('moderate-questions', {
+          body: { action: 'list', status: 'draft' }
+        }),
+        supabase
+          .from('topics')
+          .select('id, title, auto_publish')
+          .eq('created_by', profileId)
+          .order('title', { ascending: true })
+      ]);
+
+      if (reported.error) throw reported.error;
+      if (drafts.error) throw drafts.error;
+      setQuestions([...reported.data.questions, ...drafts.data.questions]);
+      setOwnedTopics(topicsData ?? []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const moderate = async (question: PendingQuestion, action: 'approve' | 'edit' | 'reject' | 'retire', changes?: QuestionEdits) => {
+    setBusyId(question.id);
+
+    try {
+      const { data, error } = await supabase.functions.invoke<{ rescored: number }>('moderate-questions', {
+        body: { action, questionId: question.id, changes }
+      });
+
+      if (error) throw error;
+
+      if (data.rescored > 0) {
+        toast({
+          title: "Answers re-graded",
+          description: `${data.rescored} past answer${data.rescored === 1 ? ' was' : 's were'} re-graded against the corrected key.`
+        });
+      }
+
+      setQuestions((current) => current?.filter((item) => item.id !== question.id) ?? null);
+      setEditingId(null);
+      onQuestionModerated?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (question: PendingQuestion) => {
+    setEditingId(question.id);
+    setEdits({
+      question_text: question.question_text,
+      correct_answer: question.correct_answer,
+      options: question.options,
+      rationale: question.rationale ?? ''
+    });
+  };
+
+  const setAutoPublish = async (topic: OwnedTopic, autoPublish: boolean) => {
+    const { error } = await supabase
+      .from('topics')
+      .update({ auto_publish: autoPublish })
+      .eq('id', topic.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setOwnedTopics(ownedTopics.map((item) => item.id === topic.id ? { ...item, auto_publish: autoPublish } : item));
+  };
+
+  if (!questions) {
+    return <p className="text-sm text-muted-foreground">Loading questions awaiting review...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {ownedTopics.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Auto-publish</CardTitle>
+            <CardDescription>
+              Questions generated for these topics go straight to learners without waiting for review.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {ownedTopics.map((topic) => (
+              <div key={topic.id} className="flex items-center justify-between">
+                <Label htmlFor={`auto-publish-${topic.id}`} className="font-normal">{topic.title}</Label>
+                <Switch
+                  id={`auto-publish-${topic.id}`}
+                  checked={topic.auto_publish}
+                  onCheckedChange={(checked) => setAutoPublish(topic, checked)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {questions.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <ClipboardCheck className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">Nothing to Review</h3>
+            <p className="text-muted-foreground">
+              Newly generated and reported questions for your topics will show up here.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {questions.map((question) => (
+        <Card key={question.id}>
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between gap-2">
+              <CardDescription>{question.topic_title}</CardDescription>
+              <div className="flex gap-2">
+                {question.status === 'quarantined' && <Badge variant="destructive">Paused</Badge>}
+                {question.reports.length > 0 && (
+                  <Badge variant="outline">
+                    <Flag className="w-3 h-3 mr-1" />
+                    {question.reports.length} report{question.reports.length === 1 ? '' : 's'}
+                  </Badge>
+                )}
+                <Badge variant="outline">{question.question_type}</Badge>
+                <Badge variant="secondary">{question.difficulty}</Badge>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {editingId === question.id && edits ? (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`text-${question.id}`}>Question</Label>
+                  <Textarea
+                    id={`text-${question.id}`}
+                    value={edits.question_text}
+                    onChange={(e) => setEdits({ ...edits, question_text: e.target.value })}
+                  />
+                </div>
+                {edits.options && (
+                  <div className="space-y-2">
+                    <Label>Options</Label>
+                    {edits.options.map((option, index) => (
+                      <Input
+                        key={index}
+                        value={option}
+                        onChange={(e) => setEdits({
+                          ...edits,
+                          options: edits.options!.map((item, itemIndex) => itemIndex === index ? e.target.value : item)
+                        })}
+                      />
+                    ))}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor={`answer-${question.id}`}>Correct answer</Label>
+                  <Textarea
+                    id={`answer-${question.id}`}
+                    value={edits.correct_answer}
+                    onChange={(e) => setEdits({ ...edits, correct_answer: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`rationale-${question.id}`}>Rationale</Label>
+                  <Textarea
+                    id={`rationale-${question.id}`}
+                    value={edits.rationale}
+                    onChange={(e) => setEdits({ ...edits, rationale: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => moderate(question, 'edit', edits)} disabled={busyId !== null}>
+                    <Check className="w-4 h-4 mr-2" />
+                    {busyId === question.id ? 'Saving...' : 'Save & Approve'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={busyId !== null}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="font-medium">{question.question_text}</p>
+                {question.options && (
+                  <ul className="list-disc pl-5 text-sm space-y-1">
+                    {question.options.map((option) => (
+                      <li key={option} className={option === question.correct_answer ? 'font-semibold' : undefined}>
+                        {option}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="text-sm space-y-1">
+                  <p><span className="text-muted-foreground">Answer:</span> {question.correct_answer}</p>
+                  {question.rationale && (
+                    <p><span className="text-muted-foreground">Rationale:</span> {question.rationale}</p>
+                  )}
+                  {question.source_passage && (
+                    <p className="text-muted-foreground italic line-clamp-3">"{question.source_passage}"</p>
+                  )}
+                </div>
+                {question.reports.length > 0 && (
+                  <ul className="p-3 bg-muted rounded-lg text-sm space-y-1">
+                    {question.reports.map((report) => (
+                      <li key={report.id}>
+                        <span className="font-medium">{REPORT_REASON_LABELS[report.reason] ?? report.reason}</span>
+                        {report.details && <span className="text-muted-foreground"> — {report.details}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => moderate(question, 'approve')} disabled={busyId !== null}>
+                    <Check className="w-4 h-4 mr-2" />
+                    {question.status === 'draft' ? 'Approve' : 'Keep as Is'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => startEditing(question)} disabled={busyId !== null}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  {question.status === 'draft' ? (
+                    <Button size="sm" variant="destructive" onClick={() => moderate(question, 'reject')} disabled={busyId !== null}>
+                      <X className="w-4 h-4 mr-2" />
+                      Reject
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="destructive" onClick={() => moderate(question, 'retire')} disabled={busyId !== null}>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Retire
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default ModerationQueue;
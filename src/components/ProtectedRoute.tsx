@@ -1,9 +1,10 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import Dashboard from '@/components/Dashboard';
 
-const Index = () => {
+// Wraps routes that need a signed-in user; others are sent to sign in and brought back afterwards
+const ProtectedRoute = () => {
   const { user, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -17,10 +18,10 @@ const Index = () => {
   }
 
   if (!user) {
-    return <Navigate to="/auth" replace />;
+    return <Navigate to="/auth" replace state={{ from: location }} />;
   }
 
-  return <Dashboard />;
+  return <Outlet />;
 };
 
-export default Index;
+export default ProtectedRoute;
@@ -0,0 +1,382 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { FilePlus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { QUESTION_TYPE_LABELS, QUESTION_TYPES, type QuestionType } from '@/lib/questionTypes';
+import QuestionPrompt from './QuestionPrompt';
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+interface QuestionDraft {
+  question_type: QuestionType;
+  difficulty: Difficulty;
+  question_text: string;
+  options: string[];
+  correct_answer: string;
+  accepted_answers: string;
+  rationale: string;
+}
+
+// An existing question the draft closely matches, from supabase/functions/question-clusters
+interface NearDuplicate {
+  id: string;
+  question_text: string;
+  similarity: number;
+}
+
+interface QuestionEditorProps {
+  topicId: string;
+  topicTitle: string;
+  profileId: string;
+  onQuestionCreated?: () => void;
+}
+
+// Same rules the server applies to generated questions in supabase/functions/_shared/questionSchema.ts
+const MCQ_OPTION_COUNT = 4;
+const BLANK_MARKER = '_____';
+
+const emptyDraft = (): QuestionDraft => ({
+  question_type: 'mcq',
+  difficulty: 'medium',
+  question_text: '',
+  options: Array(MCQ_OPTION_COUNT).fill(''),
+  correct_answer: '',
+  accepted_answers: '',
+  rationale: ''
+});
+
+const fromLines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+const draftIssues = (draft: QuestionDraft): string[] => {
+  const issues: string[] = [];
+  const options = draft.options.map((option) => option.trim());
+
+  if (draft.question_text.trim().length < 10) {
+    issues.push('The question needs at least 10 characters.');
+  }
+  if (draft.question_type === 'fill_blank' && !/_{3,}/.test(draft.question_text)) {
+    issues.push(`Mark the blank with ${BLANK_MARKER}.`);
+  }
+  if (draft.question_type === 'mcq') {
+    if (options.some((option) => !option)) {
+      issues.push(`Fill in all ${MCQ_OPTION_COUNT} options.`);
+    } else if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+      issues.push('Options must be different from each other.');
+    }
+    if (!options.includes(draft.correct_answer.trim())) {
+      issues.push('Mark which option is correct.');
+    }
+  } else if (!draft.correct_answer.trim()) {
+    issues.push('Enter the correct answer.');
+  }
+  if (!draft.rationale.trim()) {
+    issues.push('Explain why the answer is correct.');
+  }
+
+  return issues;
+};
+
+// Lets a topic owner write a question by hand, previewed exactly as learners will see it
+const QuestionEditor = ({ topicId, topicTitle, profileId, onQuestionCreated }: QuestionEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<QuestionDraft>(emptyDraft);
+  const [previewAnswer, setPreviewAnswer] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Set once the owner has been warned; saving again with the same text adds the question anyway
+  const [duplicate, setDuplicate] = useState<(NearDuplicate & { checkedText: string }) | null>(null);
+  const questionTextRef = useRef<HTMLTextAreaElement>(null);
+
+  const issues = draftIssues(draft);
+
+  const updateDraft = (changes: Partial<QuestionDraft>) => setDraft({ ...draft, ...changes });
+
+  const changeType = (questionType: QuestionType) => {
+    // The answer of one type rarely makes sense for another
+    updateDraft({ question_type: questionType, correct_answer: '' });
+    setPreviewAnswer('');
+  };
+
+  const updateOption = (index: number, value: string) => {
+    const options = draft.options.map((option, optionIndex) => optionIndex === index ? value : option);
+    // Keep the correct answer pointing at the option being edited
+    const wasCorrect = draft.correct_answer !== '' && draft.options[index] === draft.correct_answer;
+    updateDraft({ options, correct_answer: wasCorrect ? value : draft.correct_answer });
+  };
+
+  const insertBlank = () => {
+    const textarea = questionTextRef.current;
+    const start = textarea?.selectionStart ?? draft.question_text.length;
+    const end = textarea?.selectionEnd ?? start;
+    updateDraft({
+      question_text: `${draft.question_text.slice(0, start)}${BLANK_MARKER}${draft.question_text.slice(end)}`
+    });
+  };
+
+  const saveQuestion = async () => {
+    if (issues.length > 0) return;
+    setIsSaving(true);
+
+    try {
+      const questionText = draft.question_text.trim();
+      if (duplicate?.checkedText !== questionText) {
+        const { data, error: checkError } = await supabase.functions.invoke<{ duplicate: NearDuplicate | null }>('question-clusters', {
+          body: { topicId, questionText }
+        });
+
+        if (checkError) throw checkError;
+        if (data?.duplicate) {
+          setDuplicate({ ...data.duplicate, checkedText: questionText });
+          return;
+        }
+      }
+
+      const typed = draft.question_type === 'fill_blank' || draft.question_type === 'short_answer';
+      const { error } = await supabase
+        .from('questions')
+        .insert({
+          topic_id: topicId,
+          created_by: profileId,
+          question_type: draft.question_type,
+          difficulty: draft.difficulty,
+          question_text: questionText,
+          options: draft.question_type === 'mcq' ? JSON.stringify(draft.options.map((option) => option.trim())) : null,
+          correct_answer: draft.correct_answer.trim(),
+          accepted_answers: typed ? fromLines(draft.accepted_answers) : [],
+          rationale: draft.rationale.trim(),
+          status: 'approved'
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Question added",
+        description: `Learners of ${topicTitle} can now be asked this question.`
+      });
+      setDraft(emptyDraft());
+      setDuplicate(null);
+      setPreviewAnswer('');
+      setOpen(false);
+      onQuestionCreated?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FilePlus className="w-4 h-4 mr-2" />
+          Add Question
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Question for {topicTitle}</DialogTitle>
+          <DialogDescription>
+            Questions you write are published straight away, alongside the generated ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={draft.question_type} onValueChange={(value) => changeType(value as QuestionType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUESTION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Difficulty</Label>
+                <Select value={draft.difficulty} onValueChange={(value) => updateDraft({ difficulty: value as Difficulty })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="easy">Easy</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="hard">Hard</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="question-text">Question</Label>
+                {draft.question_type === 'fill_blank' && (
+                  <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={insertBlank}>
+                    Insert blank
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                id="question-text"
+                ref={questionTextRef}
+                value={draft.question_text}
+                onChange={(e) => updateDraft({ question_text: e.target.value })}
+                placeholder={draft.question_type === 'fill_blank'
+                  ? `e.g., Water boils at ${BLANK_MARKER} degrees Celsius at sea level.`
+                  : 'e.g., Which planet is closest to the Sun?'}
+                rows={3}
+              />
+            </div>
+
+            {draft.question_type === 'mcq' && (
+              <div className="space-y-2">
+                <Label>Options (select the correct one)</Label>
+                <RadioGroup
+                  value={draft.options.includes(draft.correct_answer) && draft.correct_answer ? String(draft.options.indexOf(draft.correct_answer)) : ''}
+                  onValueChange={(value) => updateDraft({ correct_answer: draft.options[Number(value)] })}
+                >
+                  {draft.options.map((option, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <RadioGroupItem value={String(index)} id={`editor-option-${index}`} disabled={!option.trim()} />
+                      <Input
+                        value={option}
+                        onChange={(e) => updateOption(index, e.target.value)}
+                        placeholder={`Option ${index + 1}`}
+                        aria-label={`Option ${index + 1}`}
+                      />
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+
+            {draft.question_type === 'true_false' && (
+              <div className="space-y-2">
+                <Label>Correct answer</Label>
+                <RadioGroup value={draft.correct_answer} onValueChange={(value) => updateDraft({ correct_answer: value })}>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="true" id="editor-true" />
+                    <Label htmlFor="editor-true" className="font-normal">True</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="false" id="editor-false" />
+                    <Label htmlFor="editor-false" className="font-normal">False</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            {draft.question_type !== 'mcq' && draft.question_type !== 'true_false' && (
+              <div className="space-y-2">
+                <Label htmlFor="correct-answer">
+                  {draft.question_type === 'long_answer' ? 'Model answer' : 'Correct answer'}
+                </Label>
+                <Textarea
+                  id="correct-answer"
+                  value={draft.correct_answer}
+                  onChange={(e) => updateDraft({ correct_answer: e.target.value })}
+                  rows={draft.question_type === 'long_answer' ? 4 : 1}
+                />
+              </div>
+            )}
+
+            {(draft.question_type === 'fill_blank' || draft.question_type === 'short_answer') && (
+              <div className="space-y-2">
+                <Label htmlFor="editor-accepted-answers">Also accept (one per line)</Label>
+                <Textarea
+                  id="editor-accepted-answers"
+                  value={draft.accepted_answers}
+                  onChange={(e) => updateDraft({ accepted_answers: e.target.value })}
+                  placeholder="e.g., 100°C"
+                  rows={2}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="rationale">Explanation</Label>
+              <Textarea
+                id="rationale"
+                value={draft.rationale}
+                onChange={(e) => updateDraft({ rationale: e.target.value })}
+                placeholder="Shown to learners after they answer"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline">{draft.question_type}</Badge>
+                  <Badge variant="secondary">{draft.difficulty}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <QuestionPrompt
+                  question={{
+                    question_text: draft.question_text || 'Your question will appear here.',
+                    question_type: draft.question_type,
+                    options: draft.options
+                  }}
+                  answer={previewAnswer}
+                  onAnswerChange={setPreviewAnswer}
+                />
+              </CardContent>
+            </Card>
+            {duplicate?.checkedText === draft.question_text.trim() && (
+              <p className="text-sm text-destructive">
+                This is {Math.round(duplicate.similarity * 100)}% similar to an existing question:
+                {' '}"{duplicate.question_text}". Add it anyway, or reword it.
+              </p>
+            )}
+            {issues.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                {issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={saveQuestion} disabled={issues.length > 0 || isSaving}>
+            {isSaving
+              ? 'Saving...'
+              : duplicate?.checkedText === draft.question_text.trim() ? 'Add Anyway' : 'Add Question'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionEditor;
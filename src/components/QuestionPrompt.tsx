@@ -0,0 +1,76 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { QuestionType } from '@/lib/questionTypes';
+
+export interface PromptQuestion {
+  question_text: string;
+  question_type: QuestionType;
+  options?: string[];
+}
+
+interface QuestionPromptProps {
+  question: PromptQuestion;
+  answer: string;
+  onAnswerChange: (answer: string) => void;
+  // Options a hint has ruled out; they stay visible but cannot be picked
+  eliminatedOptions?: string[];
+}
+
+// A question and the input a learner answers it with; shared by the quiz and the question editor preview
+const QuestionPrompt = ({ question, answer, onAnswerChange, eliminatedOptions = [] }: QuestionPromptProps) => (
+  <div>
+    <h3 className="text-lg font-semibold mb-4">
+      {question.question_text}
+    </h3>
+
+    {question.question_type === 'mcq' && question.options && (
+      <RadioGroup value={answer} onValueChange={onAnswerChange}>
+        {question.options.map((option, index) => {
+          const eliminated = eliminatedOptions.includes(option);
+          return (
+            <div key={index} className="flex items-center space-x-2">
+              <RadioGroupItem value={option} id={`option-${index}`} disabled={eliminated} />
+              <Label htmlFor={`option-${index}`} className={eliminated ? 'line-through text-muted-foreground' : undefined}>
+                {option}
+              </Label>
+            </div>
+          );
+        })}
+      </RadioGroup>
+    )}
+
+    {question.question_type === 'true_false' && (
+      <RadioGroup value={answer} onValueChange={onAnswerChange}>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="true" id="true" />
+          <Label htmlFor="true">True</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="false" id="false" />
+          <Label htmlFor="false">False</Label>
+        </div>
+      </RadioGroup>
+    )}
+
+    {question.question_type === 'fill_blank' && (
+      <Input
+        value={answer}
+        onChange={(e) => onAnswerChange(e.target.value)}
+        placeholder="Type your answer here"
+      />
+    )}
+
+    {(question.question_type === 'short_answer' || question.question_type === 'long_answer') && (
+      <Textarea
+        value={answer}
+        onChange={(e) => onAnswerChange(e.target.value)}
+        placeholder="Type your answer here"
+        rows={question.question_type === 'long_answer' ? 6 : 3}
+      />
+    )}
+  </div>
+);
+
+export default QuestionPrompt;
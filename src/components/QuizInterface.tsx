@@ -1,25 +1,120 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, XCircle, Brain, Trophy } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CheckCircle, XCircle, CircleDot, Brain, Trophy, GitBranch, Play, BookOpen, RotateCcw, Timer, Lightbulb } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import AnswerKeyEditor from './AnswerKeyEditor';
+import ReportQuestionDialog from './ReportQuestionDialog';
+import QuestionPrompt from './QuestionPrompt';
+import {
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  typeWeightsFrom,
+  type QuestionType,
+  type TypeWeights
+} from '@/lib/questionTypes';
+import {
+  DEFAULT_SESSION_CONFIG,
+  formatRemaining,
+  isValidSessionConfig,
+  sessionConfigFrom,
+  type SessionConfig
+} from '@/lib/sessionConfig';
 
 interface Question {
   id: string;
   question_text: string;
   question_type: 'mcq' | 'fill_blank' | 'short_answer' | 'long_answer' | 'true_false';
   difficulty: 'easy' | 'medium' | 'hard';
-  correct_answer: string;
   options?: string[];
-  rationale?: string;
+}
+
+interface RubricCriterionResult {
+  criterion: string;
+  points: number;
+  awarded: number;
+  feedback: string;
+}
+
+interface AnswerResult {
+  finished: boolean;
+  is_correct: boolean;
+  // Credit after the hint discount; graded_score is the credit before it
+  score: number;
+  graded_score: number;
+  hints_used: number;
+  verdict: 'correct' | 'partial' | 'incorrect';
+  strengths: string[];
+  gaps: string[];
+  criteria: RubricCriterionResult[] | null;
+  match_rule: 'exact' | 'normalized' | 'numeric' | 'set' | 'pattern' | 'typo' | null;
+  correct_answer: string;
+  rationale: string | null;
+  source_passage: string | null;
+  feedback: string;
+  mastery: number;
+  difficulty: {
+    previous: 'easy' | 'medium' | 'hard';
+    next: 'easy' | 'medium' | 'hard';
+    reason: string;
+  } | null;
+  session: {
+    total_questions: number;
+    correct_answers: number;
+    total_score: number;
+    current_difficulty: 'easy' | 'medium' | 'hard';
+  };
+}
+
+// Returned instead of a grade when feedback is deferred to the end of the session
+interface DeferredAnswerResult {
+  recorded: true;
+  feedback_deferred: true;
+  finished: boolean;
+  session: {
+    total_questions: number;
+  };
+}
+
+interface QuestionHint {
+  level: number;
+  hint: string;
+  eliminated_options: string[];
+}
+
+interface HintResult {
+  hint: QuestionHint;
+  hints_used: number;
+  hints_remaining: number;
+  penalty_per_hint: number;
+}
+
+// Matches MAX_HINTS in supabase/functions/_shared/hints.ts
+const MAX_HINTS = 3;
+
+interface Deadlines {
+  session: string | null;
+  question: string | null;
+}
+
+type FinishReason = 'completed' | 'timed_out';
+
+interface TopicSuggestion {
+  action: 'evolve_topic' | 'suggest_subtopic';
+  suggested_topic: string;
+  focus_area: string | null;
+  reasoning: string;
 }
 
 interface QuizSession {
@@ -28,30 +123,128 @@ interface QuizSession {
   current_difficulty: 'easy' | 'medium' | 'hard';
   total_questions: number;
   correct_answers: number;
+  total_score: number;
 }
 
+// Explains answers accepted without matching the key character for character
+const MATCH_RULE_NOTES = {
+  normalized: 'Accepted ignoring capitalization, accents, punctuation and articles.',
+  numeric: 'Accepted as numerically equivalent.',
+  set: 'Accepted with the items in a different order.',
+  pattern: 'Accepted as matching an answer pattern.',
+  typo: 'Accepted despite a small spelling mistake.',
+};
+
+// Question types whose accepted answers the topic owner can widen
+const TYPED_ANSWER_TYPES = ['fill_blank', 'short_answer'];
+
 interface QuizInterfaceProps {
-  topicId: string;
+  // Omitted for review sessions, which mix due questions from every topic
+  topicId?: string;
   topicTitle: string;
+  mode?: 'practice' | 'review';
   onQuizComplete: () => void;
+  // Called with the child topic when the learner accepts a suggested branch
+  onBranch?: (topic: Tables<'topics'>) => void;
 }
 
-const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfaceProps) => {
+const QuizInterface = ({ topicId, topicTitle, mode = 'practice', onQuizComplete, onBranch }: QuizInterfaceProps) => {
   const { user, getUserProfile } = useAuth();
+  const navigate = useNavigate();
   const [session, setSession] = useState<QuizSession | null>(null);
+  const [activeSession, setActiveSession] = useState<Tables<'learner_quiz_sessions'> | null>(null);
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
   const [userAnswer, setUserAnswer] = useState('');
   const [isAnswering, setIsAnswering] = useState(false);
+  const [hints, setHints] = useState<QuestionHint[]>([]);
+  const [hintPenalty, setHintPenalty] = useState<number | null>(null);
+  const [isHinting, setIsHinting] = useState(false);
   const [showFeedback, setShowFeedback] = useState(false);
-  const [lastAnswerCorrect, setLastAnswerCorrect] = useState(false);
-  const [aiFeedback, setAiFeedback] = useState('');
+  const [answerResult, setAnswerResult] = useState<AnswerResult | null>(null);
+  const [mastery, setMastery] = useState<number | null>(null);
+  const [suggestion, setSuggestion] = useState<TopicSuggestion | null>(null);
+  const [isBranching, setIsBranching] = useState(false);
+  const [isTopicOwner, setIsTopicOwner] = useState(false);
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
+  const [topicTypeWeights, setTopicTypeWeights] = useState<TypeWeights | null>(null);
+  const [selectedTypes, setSelectedTypes] = useState<QuestionType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(DEFAULT_SESSION_CONFIG);
+  const [deadlines, setDeadlines] = useState<Deadlines>({ session: null, question: null });
+  const [now, setNow] = useState(Date.now());
+  const [finishReason, setFinishReason] = useState<FinishReason | null>(null);
+  const [finalSession, setFinalSession] = useState<Tables<'learner_quiz_sessions'> | null>(null);
+  const autoSubmittedId = useRef<string | null>(null);
+  // The latest submitAnswer, so the timer can submit the current answer without re-running on every keystroke
+  const submitAnswerRef = useRef<(automatic?: boolean) => Promise<void>>(async () => {});
+
+  // Tick while a deadline is running
+  useEffect(() => {
+    if (!deadlines.session && !deadlines.question) return;
 
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadlines]);
+
+  // Submit whatever has been typed once the question's or the session's time runs out
+  const timeUp = [deadlines.question, deadlines.session]
+    .some((deadline) => deadline && now >= new Date(deadline).getTime());
+  const expiredQuestionId = timeUp && !showFeedback && !isAnswering && !finishReason ? currentQuestion?.id ?? null : null;
+
+  useEffect(() => {
+    if (expiredQuestionId && autoSubmittedId.current !== expiredQuestionId) {
+      autoSubmittedId.current = expiredQuestionId;
+      submitAnswerRef.current(true);
+    }
+  }, [expiredQuestionId]);
+
+  // Show the final score once the session is over
+  const sessionId = session?.id;
   useEffect(() => {
-    initializeQuiz();
-  }, [topicId]);
+    if (!finishReason || !sessionId) return;
+
+    supabase
+      .from('learner_quiz_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .single()
+      .then(({ data }) => setFinalSession(data));
+  }, [finishReason, sessionId]);
+
+  const loadNextQuestion = useCallback(async (sessionId: string) => {
+    try {
+      // The server picks an unseen question, falling back to AI generation
+      const { data, error } = await supabase.functions.invoke('next-question', {
+        body: { sessionId }
+      });
+
+      if (error) throw error;
+
+      // A null question means the review queue has been worked through, that new questions
+      // are still waiting for the topic owner's approval, or that an exam is over
+      setCurrentQuestion(data?.question ?? null);
+      setHints(data?.hints ?? []);
+      setAwaitingApproval(data?.source === 'pending_review');
+      setDeadlines(data?.deadlines ?? { session: null, question: null });
+      setNow(Date.now());
+
+      if (data?.source === 'finished' || data?.source === 'time_up') {
+        setFinishReason(data.source === 'time_up' ? 'timed_out' : 'completed');
+      }
+    } catch (error: any) {
+      console.error('Error loading question:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load question",
+        variant: "destructive"
+      });
+    }
+  }, []);
+
+  // Creates the session row with the chosen question types and exam settings, then serves its first question
+  const beginSession = useCallback(async (questionTypeWeights: TypeWeights | null, config: SessionConfig) => {
+    setIsLoading(true);
 
-  const initializeQuiz = async () => {
     try {
       const profile = await getUserProfile();
       if (!profile) throw new Error('Profile not found');
@@ -61,16 +254,19 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
         .from('quiz_sessions')
         .insert({
           user_id: profile.id,
-          topic_id: topicId,
-          current_difficulty: 'medium'
+          topic_id: topicId ?? null,
+          mode,
+          question_type_weights: questionTypeWeights,
+          config
         })
-        .select()
+        .select('id, topic_id, current_difficulty, total_questions')
         .single();
 
       if (sessionError) throw sessionError;
 
-      setSession(sessionData);
-      await loadNextQuestion(sessionData.current_difficulty);
+      // Scores are read through learner_quiz_sessions; a new session has none yet
+      setSession({ ...sessionData, correct_answers: 0, total_score: 0 });
+      await loadNextQuestion(sessionData.id);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -80,123 +276,201 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [getUserProfile, topicId, mode, loadNextQuestion]);
+
+  // Difficulty and counters come back with the session row; the server re-serves any unanswered question
+  const resumeQuiz = useCallback(async (existing: Tables<'learner_quiz_sessions'>) => {
+    setIsLoading(true);
 
-  const loadNextQuestion = async (difficulty: 'easy' | 'medium' | 'hard') => {
     try {
-      const { data: questions, error } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('topic_id', topicId)
-        .eq('difficulty', difficulty)
-        .limit(1);
+      setSession({
+        id: existing.id,
+        topic_id: existing.topic_id ?? '',
+        current_difficulty: existing.current_difficulty ?? 'medium',
+        total_questions: existing.total_questions ?? 0,
+        correct_answers: existing.correct_answers ?? 0,
+        total_score: existing.total_score ?? 0
+      });
+      setSessionConfig(sessionConfigFrom(existing.config));
+      setActiveSession(null);
+      await loadNextQuestion(existing.id);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadNextQuestion]);
 
-      if (error) throw error;
+  // The learner's unfinished session of this mode on this topic, if any
+  const findActiveSession = useCallback(async (profileId: string) => {
+    let activeQuery = supabase
+      .from('learner_quiz_sessions')
+      .select('*')
+      .eq('user_id', profileId)
+      .eq('mode', mode)
+      .eq('is_active', true)
+      .order('started_at', { ascending: false })
+      .limit(1);
 
-      if (questions && questions.length > 0) {
-        const question = questions[0];
-        setCurrentQuestion({
-          ...question,
-          options: question.options ? JSON.parse(question.options as string) : undefined
-        });
-      } else {
-        // Generate new question using AI
-        await generateNewQuestion(difficulty);
-      }
-    } catch (error: any) {
-      console.error('Error loading question:', error);
-      // Fallback to generating a new question
-      await generateNewQuestion(difficulty);
+    activeQuery = topicId ? activeQuery.eq('topic_id', topicId) : activeQuery.is('topic_id', null);
+
+    const { data } = await activeQuery.maybeSingle();
+    return data;
+  }, [mode, topicId]);
+
+  // Review sessions are just a queue of due items, so an unfinished one is picked up without asking
+  const resumeOrStartReview = useCallback(async () => {
+    const profile = await getUserProfile();
+    const existing = profile ? await findActiveSession(profile.id) : null;
+
+    if (existing) {
+      await resumeQuiz(existing);
+    } else {
+      await beginSession(null, DEFAULT_SESSION_CONFIG);
     }
-  };
+  }, [getUserProfile, findActiveSession, resumeQuiz, beginSession]);
 
-  const generateNewQuestion = async (difficulty: 'easy' | 'medium' | 'hard') => {
+  const loadTopicPreferences = useCallback(async () => {
     try {
-      const { data, error } = await supabase.functions.invoke('generate-question', {
-        body: {
-          topicId,
-          difficulty,
-          questionType: 'mcq' // Default to MCQ for AI generation
-        }
-      });
+      const profile = await getUserProfile();
+      if (!profile) throw new Error('Profile not found');
 
-      if (error) throw error;
+      if (topicId) {
+        const { data: masteryData } = await supabase
+          .from('topic_mastery')
+          .select('mastery')
+          .eq('user_id', profile.id)
+          .eq('topic_id', topicId)
+          .maybeSingle();
+
+        setMastery(masteryData?.mastery ?? null);
+
+        const { data: topicData } = await supabase
+          .from('topics')
+          .select('created_by, question_type_weights')
+          .eq('id', topicId)
+          .single();
 
-      if (data?.question) {
-        setCurrentQuestion(data.question);
+        const weights = typeWeightsFrom(topicData?.question_type_weights);
+        setTopicTypeWeights(weights);
+        setSelectedTypes(QUESTION_TYPES.filter((type) => weights[type] > 0));
+        setIsTopicOwner(topicData?.created_by === profile.id);
       }
-    } catch (error: any) {
-      console.error('Error generating question:', error);
+
+      setActiveSession(await findActiveSession(profile.id));
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to load question",
+        description: (error as Error).message,
         variant: "destructive"
       });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [topicId, getUserProfile, findActiveSession]);
+
+  useEffect(() => {
+    // Practice sessions open on a start screen; review sessions begin straight away
+    if (mode === 'review') {
+      resumeOrStartReview();
+    } else {
+      loadTopicPreferences();
     }
+  }, [mode, resumeOrStartReview, loadTopicPreferences]);
+
+  // Keep the topic's weights for the chosen types; types the topic had turned off get the lowest weight
+  const sessionTypeWeights = () => {
+    if (!topicTypeWeights) return null;
+
+    const weights = {} as TypeWeights;
+    for (const type of QUESTION_TYPES) {
+      weights[type] = selectedTypes.includes(type) ? topicTypeWeights[type] || 1 : 0;
+    }
+    return weights;
+  };
+
+  const toggleType = (type: QuestionType, checked: boolean) => {
+    setSelectedTypes(checked ? [...selectedTypes, type] : selectedTypes.filter((selected) => selected !== type));
+  };
+
+  const startQuiz = () =>
+    beginSession(sessionTypeWeights(), mode === 'practice' ? sessionConfig : DEFAULT_SESSION_CONFIG);
+
+  // Sessions are closed server-side, which keeps a finished session from being reopened
+  const closeSession = (sessionId: string, reason: 'completed' | 'restarted') =>
+    supabase.functions.invoke('end-session', {
+      body: { sessionId, reason }
+    });
+
+  const startOver = async () => {
+    if (activeSession) {
+      await closeSession(activeSession.id, 'restarted');
+
+      setActiveSession(null);
+    }
+
+    await startQuiz();
   };
 
-  const submitAnswer = async () => {
-    if (!currentQuestion || !session || !userAnswer.trim()) return;
+  // Automatic submissions happen when time runs out and may be blank
+  const submitAnswer = async (automatic = false) => {
+    if (!currentQuestion || !session || (!userAnswer.trim() && !automatic)) return;
 
     setIsAnswering(true);
 
     try {
-      // Check if answer is correct
-      const isCorrect = userAnswer.toLowerCase().trim() === currentQuestion.correct_answer.toLowerCase().trim();
+      // Grading and recording happen server-side
+      const { data: result, error } = await supabase.functions.invoke<AnswerResult | DeferredAnswerResult>('submit-answer', {
+        body: {
+          sessionId: session.id,
+          questionId: currentQuestion.id,
+          answer: userAnswer
+        }
+      });
 
-      // Get AI feedback for non-MCQ questions
-      let feedback = '';
-      if (currentQuestion.question_type !== 'mcq' && currentQuestion.question_type !== 'true_false') {
-        try {
-          const { data: feedbackData } = await supabase.functions.invoke('grade-answer', {
-            body: {
-              question: currentQuestion.question_text,
-              userAnswer,
-              correctAnswer: currentQuestion.correct_answer,
-              questionType: currentQuestion.question_type
-            }
-          });
-          feedback = feedbackData?.feedback || '';
-        } catch (error) {
-          console.error('Error getting AI feedback:', error);
+      if (error) throw error;
+
+      const finishedReason: FinishReason | null = result.finished
+        ? (deadlines.session && Date.now() >= new Date(deadlines.session).getTime() ? 'timed_out' : 'completed')
+        : null;
+
+      // Without immediate feedback the quiz moves straight on to the next question
+      if ('feedback_deferred' in result) {
+        setSession({ ...session, total_questions: result.session.total_questions });
+        setUserAnswer('');
+        if (finishedReason) {
+          setFinishReason(finishedReason);
+        } else {
+          await loadNextQuestion(session.id);
         }
+        return;
       }
 
-      // Save answer
-      await supabase
-        .from('user_answers')
-        .insert({
-          session_id: session.id,
-          question_id: currentQuestion.id,
-          user_answer: userAnswer,
-          is_correct: isCorrect,
-          ai_feedback: feedback
-        });
+      setFinishReason(finishedReason);
 
-      // Update session
-      const newTotalQuestions = session.total_questions + 1;
-      const newCorrectAnswers = session.correct_answers + (isCorrect ? 1 : 0);
-      
-      await supabase
-        .from('quiz_sessions')
-        .update({
-          total_questions: newTotalQuestions,
-          correct_answers: newCorrectAnswers
-        })
-        .eq('id', session.id);
+      const newTotalQuestions = result.session.total_questions;
 
       setSession({
         ...session,
         total_questions: newTotalQuestions,
-        correct_answers: newCorrectAnswers
+        correct_answers: result.session.correct_answers,
+        total_score: result.session.total_score,
+        current_difficulty: result.session.current_difficulty
       });
 
-      setLastAnswerCorrect(isCorrect);
-      setAiFeedback(feedback);
+      if (result.difficulty && result.difficulty.next !== result.difficulty.previous) {
+        toast({
+          title: "Quiz Evolved!",
+          description: `Difficulty adjusted to ${result.difficulty.next}`,
+        });
+      }
+
+      setAnswerResult(result);
+      if (mode === 'practice') {
+        setMastery(result.mastery);
+      }
       setShowFeedback(true);
 
       // Use AI to analyze performance and evolve the quiz
-      if (newTotalQuestions >= 3) {
+      if (mode === 'practice' && sessionConfig.adaptive && !finishedReason && newTotalQuestions >= 3) {
         try {
           // Get recent answers for AI analysis
           const { data: recentAnswers } = await supabase
@@ -227,29 +501,25 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
               }
             });
 
-            if (evolutionData) {
-              // Update difficulty if suggested
-              if (evolutionData.new_difficulty && evolutionData.new_difficulty !== session.current_difficulty) {
-                await supabase
-                  .from('quiz_sessions')
-                  .update({ current_difficulty: evolutionData.new_difficulty })
-                  .eq('id', session.id);
-                
-                setSession({ ...session, current_difficulty: evolutionData.new_difficulty });
-                
-                toast({
-                  title: "Quiz Evolved!",
-                  description: evolutionData.message_to_user || `Difficulty adjusted to ${evolutionData.new_difficulty}`,
-                });
-              }
+            // Show evolution message if provided
+            if (evolutionData?.message_to_user) {
+              toast({
+                title: "AI Learning Assessment",
+                description: evolutionData.message_to_user,
+              });
+            }
 
-              // Show evolution message if provided
-              if (evolutionData.message_to_user && !evolutionData.new_difficulty) {
-                toast({
-                  title: "AI Learning Assessment",
-                  description: evolutionData.message_to_user,
-                });
-              }
+            // Offer to branch into a suggested topic
+            if (
+              evolutionData?.suggested_topic &&
+              (evolutionData.action === 'evolve_topic' || evolutionData.action === 'suggest_subtopic')
+            ) {
+              setSuggestion({
+                action: evolutionData.action,
+                suggested_topic: evolutionData.suggested_topic,
+                focus_area: evolutionData.focus_area,
+                reasoning: evolutionData.reasoning
+              });
             }
           }
         } catch (error) {
@@ -263,32 +533,143 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
         description: error.message,
         variant: "destructive"
       });
+      // Time is up either way, so move on rather than leave the learner on an expired question
+      if (automatic) {
+        setUserAnswer('');
+        loadNextQuestion(session.id);
+      }
     } finally {
       setIsAnswering(false);
     }
   };
 
+  useEffect(() => {
+    submitAnswerRef.current = submitAnswer;
+  });
+
+  const requestHint = async () => {
+    if (!currentQuestion || !session) return;
+
+    setIsHinting(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke<HintResult>('get-hint', {
+        body: {
+          sessionId: session.id,
+          questionId: currentQuestion.id
+        }
+      });
+
+      if (error) throw error;
+
+      setHints([...hints, data.hint]);
+      setHintPenalty(data.penalty_per_hint);
+      // An answer the hint has just ruled out is no longer selected
+      if (data.hint.eliminated_options.includes(userAnswer)) {
+        setUserAnswer('');
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsHinting(false);
+    }
+  };
+
+  const branchIntoTopic = async () => {
+    if (!session || !suggestion || !topicId) return;
+
+    setIsBranching(true);
+
+    try {
+      const profile = await getUserProfile();
+      if (!profile) throw new Error('Profile not found');
+
+      // Create the child topic linked to the one being studied
+      const { data: childTopic, error: topicError } = await supabase
+        .from('topics')
+        .insert({
+          title: suggestion.suggested_topic,
+          description: suggestion.focus_area
+            ? `Branched from ${topicTitle}, focusing on ${suggestion.focus_area}`
+            : `Branched from ${topicTitle}`,
+          parent_topic_id: topicId,
+          created_by: profile.id,
+          question_type_weights: topicTypeWeights
+        })
+        .select()
+        .single();
+
+      if (topicError) throw topicError;
+
+      // Record the accepted suggestion on the session it came from
+      const { data: sessionData } = await supabase
+        .from('quiz_sessions')
+        .select('evolution_suggestions')
+        .eq('id', session.id)
+        .single();
+
+      const acceptedSuggestions = Array.isArray(sessionData?.evolution_suggestions)
+        ? sessionData.evolution_suggestions
+        : [];
+
+      await supabase
+        .from('quiz_sessions')
+        .update({
+          evolution_suggestions: [
+            ...acceptedSuggestions,
+            {
+              action: suggestion.action,
+              suggested_topic: suggestion.suggested_topic,
+              focus_area: suggestion.focus_area,
+              topic_id: childTopic.id,
+              accepted_at: new Date().toISOString()
+            }
+          ]
+        })
+        .eq('id', session.id);
+
+      await closeSession(session.id, 'completed');
+
+      setSuggestion(null);
+      onBranch?.(childTopic);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsBranching(false);
+    }
+  };
+
   const nextQuestion = () => {
     setShowFeedback(false);
     setUserAnswer('');
-    setAiFeedback('');
+    setAnswerResult(null);
     if (session) {
-      loadNextQuestion(session.current_difficulty);
+      loadNextQuestion(session.id);
     }
   };
 
+  // Blank inputs mean no limit
+  const limitFrom = (value: string, scale = 1) => value.trim() === '' ? null : Math.round(Number(value) * scale);
+
   const endQuiz = async () => {
     if (!session) return;
 
-    await supabase
-      .from('quiz_sessions')
-      .update({ 
-        is_active: false,
-        completed_at: new Date().toISOString()
-      })
-      .eq('id', session.id);
+    await closeSession(session.id, 'completed');
 
-    onQuizComplete();
+    // Sessions with answers end on their results page
+    if (session.total_questions > 0) {
+      navigate(`/sessions/${session.id}`);
+    } else {
+      onQuizComplete();
+    }
   };
 
   if (isLoading) {
@@ -302,12 +683,184 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
     );
   }
 
+  if (mode === 'practice' && !session) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="w-5 h-5" />
+            {topicTitle}
+          </CardTitle>
+          <CardDescription>
+            {mastery !== null ? `${Math.round(mastery * 100)}% mastery • ` : ''}Choose the kinds of questions to practice
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {activeSession && (
+            <div className="p-4 bg-muted rounded-lg space-y-1">
+              <p className="font-medium">You have a quiz in progress on this topic</p>
+              <p className="text-sm text-muted-foreground">
+                {activeSession.total_questions ?? 0} answered • {activeSession.current_difficulty ?? 'medium'} difficulty
+                • started {new Date(activeSession.started_at).toLocaleString()}
+              </p>
+            </div>
+          )}
+          <div className="space-y-3">
+            {QUESTION_TYPES.map((type) => (
+              <div key={type} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`type-${type}`}
+                  checked={selectedTypes.includes(type)}
+                  onCheckedChange={(checked) => toggleType(type, checked === true)}
+                />
+                <Label htmlFor={`type-${type}`}>{QUESTION_TYPE_LABELS[type]}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="p-4 border rounded-lg space-y-4">
+            <h4 className="font-semibold flex items-center gap-2">
+              <Timer className="w-4 h-4" />
+              Exam settings
+            </h4>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="question-count">Number of questions</Label>
+                <Input
+                  id="question-count"
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={sessionConfig.question_count ?? ''}
+                  onChange={(e) => setSessionConfig({ ...sessionConfig, question_count: limitFrom(e.target.value) })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="time-limit">Time limit (minutes)</Label>
+                <Input
+                  id="time-limit"
+                  type="number"
+                  min={1}
+                  max={240}
+                  value={sessionConfig.time_limit_seconds !== null ? sessionConfig.time_limit_seconds / 60 : ''}
+                  onChange={(e) => setSessionConfig({ ...sessionConfig, time_limit_seconds: limitFrom(e.target.value, 60) })}
+                  placeholder="None"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="question-time-limit">Seconds per question</Label>
+                <Input
+                  id="question-time-limit"
+                  type="number"
+                  min={5}
+                  max={3600}
+                  value={sessionConfig.question_time_limit_seconds ?? ''}
+                  onChange={(e) => setSessionConfig({ ...sessionConfig, question_time_limit_seconds: limitFrom(e.target.value) })}
+                  placeholder="None"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Label>Feedback</Label>
+                <Select
+                  value={sessionConfig.feedback}
+                  onValueChange={(value) => setSessionConfig({ ...sessionConfig, feedback: value as SessionConfig['feedback'] })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="immediate">After each question</SelectItem>
+                    <SelectItem value="end">At the end</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="adaptive"
+                  checked={sessionConfig.adaptive}
+                  onCheckedChange={(checked) => setSessionConfig({ ...sessionConfig, adaptive: checked === true })}
+                />
+                <Label htmlFor="adaptive">Adaptive difficulty</Label>
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {activeSession ? (
+              <>
+                <Button onClick={() => resumeQuiz(activeSession)}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Resume
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={startOver}
+                  disabled={selectedTypes.length === 0 || !isValidSessionConfig(sessionConfig)}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Start Over
+                </Button>
+              </>
+            ) : (
+              <Button onClick={startQuiz} disabled={selectedTypes.length === 0 || !isValidSessionConfig(sessionConfig)}>
+                <Play className="w-4 h-4 mr-2" />
+                Start Quiz
+              </Button>
+            )}
+            <Button variant="outline" onClick={onQuizComplete}>
+              Back to Topics
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // The server has closed the session, by question count or by time
+  if (finishReason && session && !showFeedback) {
+    const finalTotal = finalSession?.total_questions ?? session.total_questions;
+    const finalScore = finalSession?.total_score ?? session.total_score;
+
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-4">
+          <Trophy className="w-10 h-10 mx-auto text-primary" />
+          <h3 className="text-2xl font-bold">
+            {finishReason === 'timed_out' ? "Time's up!" : 'Quiz complete'}
+          </h3>
+          {finalSession ? (
+            <p className="text-muted-foreground">
+              You scored {Math.round(finalScore * 10) / 10} out of {finalTotal}
+              {finalTotal > 0 && ` (${Math.round((finalScore / finalTotal) * 100)}% accuracy)`}
+            </p>
+          ) : (
+            <p className="text-muted-foreground">Adding up your score...</p>
+          )}
+          <div className="flex justify-center gap-2">
+            <Button asChild>
+              <Link to={`/sessions/${session.id}`}>See Full Results</Link>
+            </Button>
+            <Button variant="outline" onClick={onQuizComplete}>
+              Back to Topics
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!currentQuestion || !session) {
     return (
       <Card>
         <CardContent className="p-8 text-center">
-          <p>No questions available for this topic.</p>
-          <Button onClick={onQuizComplete} className="mt-4">
+          <p>
+            {mode === 'review' && 'No more reviews are due. Nice work!'}
+            {mode === 'practice' && (awaitingApproval
+              ? 'New questions for this topic are waiting for review by its owner. Check back soon!'
+              : 'No questions available for this topic.')}
+          </p>
+          <Button onClick={session ? endQuiz : onQuizComplete} className="mt-4">
             Back to Topics
           </Button>
         </CardContent>
@@ -315,7 +868,8 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
     );
   }
 
-  const accuracy = session.total_questions > 0 ? Math.round((session.correct_answers / session.total_questions) * 100) : 0;
+  // Partial credit counts towards accuracy
+  const accuracy = session.total_questions > 0 ? Math.round((session.total_score / session.total_questions) * 100) : 0;
 
   return (
     <div className="space-y-6">
@@ -328,13 +882,28 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
                 {topicTitle}
               </CardTitle>
               <CardDescription>
-                Question {session.total_questions + 1} • {session.current_difficulty} difficulty
+                Question {session.total_questions + 1}
+                {sessionConfig.question_count !== null && ` of ${sessionConfig.question_count}`}
+                {' '}• {session.current_difficulty} difficulty
+                {mastery !== null && ` • ${Math.round(mastery * 100)}% mastery`}
               </CardDescription>
             </div>
             <div className="text-right">
+              {(deadlines.question || deadlines.session) && (
+                <div className="flex items-center justify-end gap-1 text-sm font-medium">
+                  <Timer className="w-4 h-4" />
+                  {deadlines.question && deadlines.question !== deadlines.session && (
+                    <span>{formatRemaining(new Date(deadlines.question).getTime() - now)} for this question</span>
+                  )}
+                  {deadlines.question && deadlines.session && deadlines.question !== deadlines.session && ' • '}
+                  {deadlines.session && (
+                    <span>{formatRemaining(new Date(deadlines.session).getTime() - now)} left</span>
+                  )}
+                </div>
+              )}
               <div className="text-2xl font-bold">{accuracy}%</div>
               <div className="text-sm text-muted-foreground">
-                {session.correct_answers}/{session.total_questions}
+                {Math.round(session.total_score * 10) / 10}/{session.total_questions}
               </div>
             </div>
           </div>
@@ -353,61 +922,52 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div>
-              <h3 className="text-lg font-semibold mb-4">
-                {currentQuestion.question_text}
-              </h3>
-              
-              {currentQuestion.question_type === 'mcq' && currentQuestion.options && (
-                <RadioGroup value={userAnswer} onValueChange={setUserAnswer}>
-                  {currentQuestion.options.map((option, index) => (
-                    <div key={index} className="flex items-center space-x-2">
-                      <RadioGroupItem value={option} id={`option-${index}`} />
-                      <Label htmlFor={`option-${index}`}>{option}</Label>
-                    </div>
-                  ))}
-                </RadioGroup>
-              )}
-
-              {currentQuestion.question_type === 'true_false' && (
-                <RadioGroup value={userAnswer} onValueChange={setUserAnswer}>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="true" id="true" />
-                    <Label htmlFor="true">True</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="false" id="false" />
-                    <Label htmlFor="false">False</Label>
-                  </div>
-                </RadioGroup>
-              )}
-
-              {currentQuestion.question_type === 'fill_blank' && (
-                <Input
-                  value={userAnswer}
-                  onChange={(e) => setUserAnswer(e.target.value)}
-                  placeholder="Type your answer here"
-                />
-              )}
+            <QuestionPrompt
+              question={currentQuestion}
+              answer={userAnswer}
+              onAnswerChange={setUserAnswer}
+              eliminatedOptions={hints.flatMap((hint) => hint.eliminated_options)}
+            />
 
-              {(currentQuestion.question_type === 'short_answer' || currentQuestion.question_type === 'long_answer') && (
-                <Textarea
-                  value={userAnswer}
-                  onChange={(e) => setUserAnswer(e.target.value)}
-                  placeholder="Type your answer here"
-                  rows={currentQuestion.question_type === 'long_answer' ? 6 : 3}
-                />
-              )}
-            </div>
+            {hints.length > 0 && (
+              <div className="p-4 bg-amber-50 dark:bg-amber-950 rounded-lg space-y-2">
+                <h4 className="font-semibold flex items-center gap-2">
+                  <Lightbulb className="w-4 h-4" />
+                  Hints
+                </h4>
+                <ol className="list-decimal pl-5 space-y-1">
+                  {hints.map((hint) => (
+                    <li key={hint.level}>{hint.hint}</li>
+                  ))}
+                </ol>
+                {hintPenalty !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Each hint takes {Math.round(hintPenalty * 100)}% off this question's score.
+                  </p>
+                )}
+              </div>
+            )}
 
             <div className="flex gap-3">
               <Button 
-                onClick={submitAnswer} 
+                onClick={() => submitAnswer()} 
                 disabled={!userAnswer.trim() || isAnswering}
                 className="flex-1"
               >
                 {isAnswering ? 'Submitting...' : 'Submit Answer'}
               </Button>
+              {/* Exams that hold grades until the end give no hints either */}
+              {sessionConfig.feedback !== 'end' && (
+                <Button
+                  variant="outline"
+                  onClick={requestHint}
+                  disabled={hints.length >= MAX_HINTS || isHinting || isAnswering}
+                  title="Hints reduce the score for this question"
+                >
+                  <Lightbulb className="w-4 h-4 mr-2" />
+                  {isHinting ? 'Thinking...' : `Hint (${MAX_HINTS - hints.length} left)`}
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 onClick={endQuiz}
@@ -421,44 +981,150 @@ const QuizInterface = ({ topicId, topicTitle, onQuizComplete }: QuizInterfacePro
         <Card>
           <CardContent className="p-6 space-y-4">
             <div className="flex items-center gap-3">
-              {lastAnswerCorrect ? (
+              {answerResult?.verdict === 'correct' && (
                 <CheckCircle className="w-8 h-8 text-green-500" />
-              ) : (
+              )}
+              {answerResult?.verdict === 'partial' && (
+                <CircleDot className="w-8 h-8 text-amber-500" />
+              )}
+              {answerResult?.verdict === 'incorrect' && (
                 <XCircle className="w-8 h-8 text-red-500" />
               )}
               <div>
                 <h3 className="text-lg font-semibold">
-                  {lastAnswerCorrect ? 'Correct!' : 'Incorrect'}
+                  {answerResult?.verdict === 'correct' && 'Correct!'}
+                  {answerResult?.verdict === 'partial' && `Partially correct (${Math.round(answerResult.graded_score * 100)}%)`}
+                  {answerResult?.verdict === 'incorrect' && 'Incorrect'}
                 </h3>
                 <p className="text-muted-foreground">
-                  The correct answer was: <strong>{currentQuestion.correct_answer}</strong>
+                  The correct answer was: <strong>{answerResult?.correct_answer}</strong>
                 </p>
+                {answerResult && answerResult.hints_used > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    With {answerResult.hints_used} {answerResult.hints_used === 1 ? 'hint' : 'hints'} used,
+                    this question earned {Math.round(answerResult.score * 100)}% of its score.
+                  </p>
+                )}
+                {answerResult?.match_rule && answerResult.match_rule !== 'exact' && (
+                  <p className="text-sm text-muted-foreground">
+                    {MATCH_RULE_NOTES[answerResult.match_rule]}
+                  </p>
+                )}
               </div>
             </div>
 
-            {currentQuestion.rationale && (
+            {isTopicOwner && currentQuestion && TYPED_ANSWER_TYPES.includes(currentQuestion.question_type) && (
+              <AnswerKeyEditor questionId={currentQuestion.id} />
+            )}
+
+            {!isTopicOwner && currentQuestion && (
+              <ReportQuestionDialog key={currentQuestion.id} questionId={currentQuestion.id} />
+            )}
+
+            {answerResult?.rationale && (
               <div className="p-4 bg-muted rounded-lg">
                 <h4 className="font-semibold mb-2">Explanation:</h4>
-                <p>{currentQuestion.rationale}</p>
+                <p>{answerResult.rationale}</p>
               </div>
             )}
 
-            {aiFeedback && (
+            {answerResult?.source_passage && (
+              <Collapsible>
+                <CollapsibleTrigger asChild>
+                  <Button variant="link" className="px-0">
+                    <BookOpen className="w-4 h-4 mr-2" />
+                    See where this came from
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <blockquote className="p-4 border-l-4 border-primary bg-muted rounded-r-lg text-sm whitespace-pre-wrap">
+                    {answerResult.source_passage}
+                  </blockquote>
+                </CollapsibleContent>
+              </Collapsible>
+            )}
+
+            {answerResult?.feedback && (
               <div className="p-4 bg-blue-50 dark:bg-blue-950 rounded-lg">
                 <h4 className="font-semibold mb-2">AI Feedback:</h4>
-                <p>{aiFeedback}</p>
+                <p>{answerResult.feedback}</p>
+                {answerResult.strengths.length > 0 && (
+                  <div className="mt-3">
+                    <h5 className="text-sm font-semibold">What you got right</h5>
+                    <ul className="list-disc pl-5 text-sm">
+                      {answerResult.strengths.map((strength, index) => (
+                        <li key={index}>{strength}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {answerResult.gaps.length > 0 && (
+                  <div className="mt-3">
+                    <h5 className="text-sm font-semibold">What was missing</h5>
+                    <ul className="list-disc pl-5 text-sm">
+                      {answerResult.gaps.map((gap, index) => (
+                        <li key={index}>{gap}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             )}
 
-            <div className="flex gap-3">
-              <Button onClick={nextQuestion} className="flex-1">
-                Next Question
-              </Button>
-              <Button variant="outline" onClick={endQuiz}>
+            {answerResult?.criteria && answerResult.criteria.length > 0 && (
+              <div className="p-4 border rounded-lg space-y-3">
+                <h4 className="font-semibold">Rubric Breakdown:</h4>
+                {answerResult.criteria.map((item, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">{item.criterion}</span>
+                      <span>{item.awarded}/{item.points}</span>
+                    </div>
+                    <Progress value={(item.awarded / item.points) * 100} />
+                    {item.feedback && (
+                      <p className="text-sm text-muted-foreground">{item.feedback}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {suggestion && onBranch && (
+              <div className="p-4 border rounded-lg space-y-3">
+                <div>
+                  <h4 className="font-semibold flex items-center gap-2">
+                    <GitBranch className="w-4 h-4" />
+                    Ready to go further?
+                  </h4>
+                  <p className="text-sm text-muted-foreground">{suggestion.reasoning}</p>
+                </div>
+                <div className="flex gap-3">
+                  <Button variant="secondary" onClick={branchIntoTopic} disabled={isBranching}>
+                    {isBranching ? 'Creating topic...' : `Branch into ${suggestion.suggested_topic}`}
+                  </Button>
+                  <Button variant="ghost" onClick={() => setSuggestion(null)}>
+                    Not now
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {finishReason ? (
+              <Button onClick={() => setShowFeedback(false)} className="w-full">
                 <Trophy className="w-4 h-4 mr-2" />
-                Finish Quiz
+                See Results
               </Button>
-            </div>
+            ) : (
+              <div className="flex gap-3">
+                <Button onClick={nextQuestion} className="flex-1">
+                  Next Question
+                </Button>
+                <Button variant="outline" onClick={endQuiz}>
+                  <Trophy className="w-4 h-4 mr-2" />
+                  Finish Quiz
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Flag } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { REPORT_REASON_LABELS } from '@/lib/questionReports';
+
+interface ReportQuestionDialogProps {
+  questionId: string;
+}
+
+// Lets a learner flag a question they just answered so the topic owner can fix it
+const ReportQuestionDialog = ({ questionId }: ReportQuestionDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('wrong_answer');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReported, setIsReported] = useState(false);
+
+  const submitReport = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.functions.invoke('report-question', {
+        body: { questionId, reason, details: details.trim() || undefined }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Thanks for the report",
+        description: "The topic owner will review this question. If they correct it, your answer will be re-graded."
+      });
+      setIsReported(true);
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={isReported}>
+          <Flag className="w-4 h-4 mr-2" />
+          {isReported ? 'Reported' : 'Report question'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report Question</DialogTitle>
+          <DialogDescription>
+            Questions reported by several learners are paused until the topic owner reviews them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason}>
+            {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`report-${value}`} />
+                <Label htmlFor={`report-${value}`} className="font-normal">{label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="e.g., the correct answer should be 1945"
+              rows={3}
+              maxLength={1000}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={submitReport} disabled={isSubmitting}>
+            {isSubmitting ? 'Sending...' : 'Send Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportQuestionDialog;
@@ -4,10 +4,30 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Brain, Sparkles } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Brain, Sparkles, BookOpen, Plus, FileText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import {
+  DEFAULT_TYPE_WEIGHTS,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  type TypeWeights
+} from '@/lib/questionTypes';
+import GenerationJobProgress from './GenerationJobProgress';
+
+const MAX_TYPE_WEIGHT = 5;
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+const DEFAULT_DISTRIBUTION = { easy: 5, medium: 5, hard: 5 };
+// Matches the limit enforced by generate-question-batch
+const MAX_PER_DIFFICULTY = 20;
+const SOURCE_FILE_KINDS: Record<string, 'markdown' | 'text' | 'pdf'> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  pdf: 'pdf',
+};
 
 interface TopicCreatorProps {
   onTopicCreated: () => void;
@@ -18,25 +38,69 @@ const TopicCreator = ({ onTopicCreated }: TopicCreatorProps) => {
   const [isCreating, setIsCreating] = useState(false);
   const [topicTitle, setTopicTitle] = useState('');
   const [topicDescription, setTopicDescription] = useState('');
+  const [typeWeights, setTypeWeights] = useState<TypeWeights>(DEFAULT_TYPE_WEIGHTS);
+  const [distribution, setDistribution] = useState(DEFAULT_DISTRIBUTION);
+  const [generationJobId, setGenerationJobId] = useState<string | null>(null);
+  const [sourceText, setSourceText] = useState('');
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+
+  // Chunk the source material so generated questions are grounded in it
+  const ingestSources = async (topicId: string) => {
+    if (sourceText.trim()) {
+      const { error } = await supabase.functions.invoke('ingest-source', {
+        body: { topicId, title: `${topicTitle} notes`, kind: 'markdown', text: sourceText }
+      });
+      if (error) throw error;
+    }
+
+    if (sourceFile && user) {
+      const extension = sourceFile.name.split('.').pop()?.toLowerCase() ?? '';
+      const storagePath = `${user.id}/${topicId}/${sourceFile.name}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('topic-sources')
+        .upload(storagePath, sourceFile, { upsert: true });
+      if (uploadError) throw uploadError;
 
+      const { error } = await supabase.functions.invoke('ingest-source', {
+        body: { topicId, title: sourceFile.name, kind: SOURCE_FILE_KINDS[extension], storagePath }
+      });
+      if (error) throw error;
+    }
+  };
+
+  // Questions are generated by a background job, so the user is free to leave this page
   const generateAIQuestions = async (topicId: string) => {
-    const questionTypes = ['mcq', 'true_false', 'fill_blank'];
-    const difficulties = ['easy', 'medium', 'hard'];
-    
-    // Generate 3 initial questions with different types and difficulties
-    for (let i = 0; i < 3; i++) {
-      try {
-        await supabase.functions.invoke('generate-question', {
-          body: {
-            topicId,
-            difficulty: difficulties[i],
-            questionType: questionTypes[i % questionTypes.length]
-          }
-        });
-      } catch (error) {
-        console.error('Error generating question:', error);
-      }
+    const { data, error } = await supabase.functions.invoke('generate-question-batch', {
+      body: { topicId, distribution }
+    });
+
+    // Refusals such as too many running jobs come back as an error response whose body says why
+    if (error) {
+      const body = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+      throw new Error(body?.error || error.message);
     }
+    setGenerationJobId(data.job.id);
+  };
+
+  const onGenerationFinished = (job: { status: string; completed_items: number; failed_items: number }) => {
+    toast({
+      title: job.status === 'completed' ? "Questions ready" : "Question generation failed",
+      description: job.failed_items > 0
+        ? `${job.completed_items} questions generated, ${job.failed_items} failed`
+        : `${job.completed_items} questions generated`,
+      variant: job.status === 'completed' ? undefined : "destructive"
+    });
+  };
+
+  const resetForm = () => {
+    setTopicTitle('');
+    setTopicDescription('');
+    setTypeWeights(DEFAULT_TYPE_WEIGHTS);
+    setDistribution(DEFAULT_DISTRIBUTION);
+    setGenerationJobId(null);
+    setSourceText('');
+    setSourceFile(null);
   };
 
   const createTopic = async () => {
@@ -63,25 +127,32 @@ const TopicCreator = ({ onTopicCreated }: TopicCreatorProps) => {
         .insert({
           title: topicTitle,
           description: topicDescription,
-          created_by: profile.id
+          created_by: profile.id,
+          question_type_weights: typeWeights
         })
         .select()
         .single();
 
       if (topicError) throw topicError;
 
+      // Questions can still be generated from the title and description if the source fails
+      try {
+        await ingestSources(topic.id);
+      } catch (error) {
+        toast({
+          title: "Source material could not be processed",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+      }
+
       // Generate AI questions for the topic
       await generateAIQuestions(topic.id);
 
       toast({
         title: "Success",
-        description: "Topic created with AI-generated questions!"
+        description: "Topic created! Questions are being generated in the background."
       });
-
-      // Reset form
-      setTopicTitle('');
-      setTopicDescription('');
-      onTopicCreated();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -93,6 +164,39 @@ const TopicCreator = ({ onTopicCreated }: TopicCreatorProps) => {
     }
   };
 
+  const canCreate = !!topicTitle
+    && QUESTION_TYPES.some((type) => typeWeights[type] > 0)
+    && DIFFICULTIES.some((difficulty) => distribution[difficulty] > 0);
+
+  if (generationJobId) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            {topicTitle}
+          </CardTitle>
+          <CardDescription>
+            Questions keep generating if you leave this page. You can start the quiz once some are ready.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <GenerationJobProgress jobId={generationJobId} onFinished={onGenerationFinished} />
+          <div className="flex gap-2">
+            <Button onClick={() => { resetForm(); onTopicCreated(); }}>
+              <BookOpen className="w-4 h-4 mr-2" />
+              Go to Topics
+            </Button>
+            <Button variant="outline" onClick={resetForm}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Another Topic
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -127,6 +231,83 @@ const TopicCreator = ({ onTopicCreated }: TopicCreatorProps) => {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="topic-source">Source Material (optional)</Label>
+            <Textarea
+              id="topic-source"
+              value={sourceText}
+              onChange={(e) => setSourceText(e.target.value)}
+              placeholder="Paste notes or Markdown; questions will be generated from this text"
+              rows={5}
+            />
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-muted-foreground" />
+              <Input
+                id="topic-source-file"
+                type="file"
+                accept=".md,.markdown,.txt,.pdf"
+                onChange={(e) => {
+                  const file = e.target.files?.[0] ?? null;
+                  const extension = file?.name.split('.').pop()?.toLowerCase() ?? '';
+                  if (file && !SOURCE_FILE_KINDS[extension]) {
+                    toast({
+                      title: "Unsupported file",
+                      description: "Upload a Markdown, plain text or PDF file",
+                      variant: "destructive"
+                    });
+                    e.target.value = '';
+                    return;
+                  }
+                  setSourceFile(file);
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Question Types</Label>
+            <p className="text-sm text-muted-foreground">
+              How often each type of question appears. Set a type to 0 to leave it out.
+            </p>
+            {QUESTION_TYPES.map((type) => (
+              <div key={type} className="flex items-center gap-4">
+                <span className="w-36 text-sm">{QUESTION_TYPE_LABELS[type]}</span>
+                <Slider
+                  value={[typeWeights[type]]}
+                  onValueChange={([value]) => setTypeWeights({ ...typeWeights, [type]: value })}
+                  max={MAX_TYPE_WEIGHT}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="w-4 text-sm text-right">{typeWeights[type]}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Questions to Generate</Label>
+            <div className="grid grid-cols-3 gap-4">
+              {DIFFICULTIES.map((difficulty) => (
+                <div key={difficulty} className="space-y-1">
+                  <Label htmlFor={`count-${difficulty}`} className="text-sm capitalize text-muted-foreground">
+                    {difficulty}
+                  </Label>
+                  <Input
+                    id={`count-${difficulty}`}
+                    type="number"
+                    min={0}
+                    max={MAX_PER_DIFFICULTY}
+                    value={distribution[difficulty]}
+                    onChange={(e) => setDistribution({
+                      ...distribution,
+                      [difficulty]: Math.min(MAX_PER_DIFFICULTY, Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="p-4 bg-muted rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <Sparkles className="w-4 h-4 text-primary" />
@@ -142,14 +323,14 @@ const TopicCreator = ({ onTopicCreated }: TopicCreatorProps) => {
 
       <Button 
         onClick={createTopic} 
-        disabled={isCreating || !topicTitle}
+        disabled={isCreating || !canCreate}
         className="w-full"
         size="lg"
       >
         {isCreating ? (
           <>
             <Brain className="w-4 h-4 mr-2 animate-pulse" />
-            Creating Topic & Generating Questions...
+            Creating Topic...
           </>
         ) : (
           <>
@@ -1,4 +1,4 @@
-import { useState, useEffect, createContext, useContext } from 'react';
+import { useState, useEffect, useCallback, createContext, useContext } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
@@ -95,13 +95,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     });
   };
 
-  const getUserProfile = async () => {
-    if (!user) return null;
+  // Stays the same function until a different user signs in, so components can depend on it
+  const userId = user?.id;
+  const getUserProfile = useCallback(async () => {
+    if (!userId) return null;
     
     const { data, error } = await supabase
       .from('profiles')
       .select('*')
-      .eq('user_id', user.id)
+      .eq('user_id', userId)
       .maybeSingle();
 
     if (error) {
@@ -110,7 +112,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
 
     return data;
-  };
+  }, [userId]);
 
   return (
     <AuthContext.Provider value={{
@@ -14,6 +14,123 @@ export type Database = {
   }
   public: {
     Tables: {
+      difficulty_decisions: {
+        Row: {
+          answer_id: string
+          config: Json
+          created_at: string
+          id: string
+          inputs: Json
+          next_difficulty: Database["public"]["Enums"]["difficulty_level"]
+          previous_difficulty: Database["public"]["Enums"]["difficulty_level"]
+          reason: string
+          session_id: string
+        }
+        Insert: {
+          answer_id: string
+          config: Json
+          created_at?: string
+          id?: string
+          inputs: Json
+          next_difficulty: Database["public"]["Enums"]["difficulty_level"]
+          previous_difficulty: Database["public"]["Enums"]["difficulty_level"]
+          reason: string
+          session_id: string
+        }
+        Update: {
+          answer_id?: string
+          config?: Json
+          created_at?: string
+          id?: string
+          inputs?: Json
+          next_difficulty?: Database["public"]["Enums"]["difficulty_level"]
+          previous_difficulty?: Database["public"]["Enums"]["difficulty_level"]
+          reason?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "difficulty_decisions_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "user_answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "difficulty_decisions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_jobs: {
+        Row: {
+          completed_items: number
+          created_at: string
+          distribution: Json
+          error: string | null
+          failed_items: number
+          finished_at: string | null
+          id: string
+          items: Json
+          requested_by: string
+          started_at: string | null
+          status: string
+          topic_id: string
+          total_items: number
+          updated_at: string
+        }
+        Insert: {
+          completed_items?: number
+          created_at?: string
+          distribution: Json
+          error?: string | null
+          failed_items?: number
+          finished_at?: string | null
+          id?: string
+          items?: Json
+          requested_by: string
+          started_at?: string | null
+          status?: string
+          topic_id: string
+          total_items?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_items?: number
+          created_at?: string
+          distribution?: Json
+          error?: string | null
+          failed_items?: number
+          finished_at?: string | null
+          id?: string
+          items?: Json
+          requested_by?: string
+          started_at?: string | null
+          status?: string
+          topic_id?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -38,8 +155,104 @@ export type Database = {
         }
         Relationships: []
       }
+      question_hints: {
+        Row: {
+          created_at: string
+          eliminated_options: string[]
+          hint: string
+          id: string
+          level: number
+          question_id: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          eliminated_options?: string[]
+          hint: string
+          id?: string
+          level: number
+          question_id: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          eliminated_options?: string[]
+          hint?: string
+          id?: string
+          level?: number
+          question_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_hints_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_hints_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          question_id: string
+          reason: string
+          resolved_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          question_id: string
+          reason: string
+          resolved_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          question_id?: string
+          reason?: string
+          resolved_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_reports_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_reports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
+          accepted_answers: string[]
+          answer_mode: string
+          answer_patterns: string[]
           correct_answer: string
           created_at: string
           created_by: string | null
@@ -49,10 +262,19 @@ export type Database = {
           question_text: string
           question_type: Database["public"]["Enums"]["question_type"]
           rationale: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          rubric: Json | null
+          source_chunk_id: string | null
+          source_passage: string | null
+          status: string
           topic_id: string
           updated_at: string
         }
         Insert: {
+          accepted_answers?: string[]
+          answer_mode?: string
+          answer_patterns?: string[]
           correct_answer: string
           created_at?: string
           created_by?: string | null
@@ -62,10 +284,19 @@ export type Database = {
           question_text: string
           question_type: Database["public"]["Enums"]["question_type"]
           rationale?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rubric?: Json | null
+          source_chunk_id?: string | null
+          source_passage?: string | null
+          status?: string
           topic_id: string
           updated_at?: string
         }
         Update: {
+          accepted_answers?: string[]
+          answer_mode?: string
+          answer_patterns?: string[]
           correct_answer?: string
           created_at?: string
           created_by?: string | null
@@ -75,6 +306,12 @@ export type Database = {
           question_text?: string
           question_type?: Database["public"]["Enums"]["question_type"]
           rationale?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rubric?: Json | null
+          source_chunk_id?: string | null
+          source_passage?: string | null
+          status?: string
           topic_id?: string
           updated_at?: string
         }
@@ -86,6 +323,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_source_chunk_id_fkey"
+            columns: ["source_chunk_id"]
+            isOneToOne: false
+            referencedRelation: "source_chunks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "questions_topic_id_fkey"
             columns: ["topic_id"]
@@ -98,53 +349,87 @@ export type Database = {
       quiz_sessions: {
         Row: {
           completed_at: string | null
+          config: Json
           correct_answers: number | null
           current_difficulty:
             | Database["public"]["Enums"]["difficulty_level"]
             | null
+          current_question_id: string | null
+          deadline_at: string | null
+          end_reason: string | null
           evolution_suggestions: Json | null
           focus_area: string | null
           id: string
           is_active: boolean | null
+          last_activity_at: string
           mastery_score: number | null
+          mode: string
+          question_deadline_at: string | null
+          question_type_weights: Json | null
           started_at: string
-          topic_id: string
+          topic_id: string | null
           total_questions: number | null
+          total_score: number
           user_id: string
         }
         Insert: {
           completed_at?: string | null
+          config?: Json
           correct_answers?: number | null
           current_difficulty?:
             | Database["public"]["Enums"]["difficulty_level"]
             | null
+          current_question_id?: string | null
+          deadline_at?: string | null
+          end_reason?: string | null
           evolution_suggestions?: Json | null
           focus_area?: string | null
           id?: string
           is_active?: boolean | null
+          last_activity_at?: string
           mastery_score?: number | null
+          mode?: string
+          question_deadline_at?: string | null
+          question_type_weights?: Json | null
           started_at?: string
-          topic_id: string
+          topic_id?: string | null
           total_questions?: number | null
+          total_score?: number
           user_id: string
         }
         Update: {
           completed_at?: string | null
+          config?: Json
           correct_answers?: number | null
           current_difficulty?:
             | Database["public"]["Enums"]["difficulty_level"]
             | null
+          current_question_id?: string | null
+          deadline_at?: string | null
+          end_reason?: string | null
           evolution_suggestions?: Json | null
           focus_area?: string | null
           id?: string
           is_active?: boolean | null
+          last_activity_at?: string
           mastery_score?: number | null
+          mode?: string
+          question_deadline_at?: string | null
+          question_type_weights?: Json | null
           started_at?: string
-          topic_id?: string
+          topic_id?: string | null
           total_questions?: number | null
+          total_score?: number
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "quiz_sessions_current_question_id_fkey"
+            columns: ["current_question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quiz_sessions_topic_id_fkey"
             columns: ["topic_id"]
@@ -161,33 +446,246 @@ export type Database = {
           },
         ]
       }
+      review_items: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          last_reviewed_at: string | null
+          question_id: string
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          question_id: string
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          question_id?: string
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      source_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          id: string
+          source_id: string
+          topic_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          id?: string
+          source_id: string
+          topic_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          id?: string
+          source_id?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "source_chunks_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "topic_sources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "source_chunks_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_mastery: {
+        Row: {
+          attempts: number
+          correct_attempts: number
+          created_at: string
+          id: string
+          mastery: number
+          topic_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          correct_attempts?: number
+          created_at?: string
+          id?: string
+          mastery?: number
+          topic_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          correct_attempts?: number
+          created_at?: string
+          id?: string
+          mastery?: number
+          topic_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_mastery_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_mastery_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_sources: {
+        Row: {
+          created_at: string
+          created_by: string
+          error: string | null
+          id: string
+          kind: string
+          status: string
+          storage_path: string | null
+          title: string
+          topic_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          error?: string | null
+          id?: string
+          kind: string
+          status?: string
+          storage_path?: string | null
+          title: string
+          topic_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          error?: string | null
+          id?: string
+          kind?: string
+          status?: string
+          storage_path?: string | null
+          title?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_sources_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_sources_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       topics: {
         Row: {
+          adaptation_config: Json
+          archived_at: string | null
+          auto_publish: boolean
           created_at: string
           created_by: string | null
           description: string | null
           id: string
           is_public: boolean | null
+          parent_topic_id: string | null
+          question_type_weights: Json | null
           title: string
           updated_at: string
+          visibility: string
         }
         Insert: {
+          adaptation_config?: Json
+          archived_at?: string | null
+          auto_publish?: boolean
           created_at?: string
           created_by?: string | null
           description?: string | null
           id?: string
           is_public?: boolean | null
+          parent_topic_id?: string | null
+          question_type_weights?: Json | null
           title: string
           updated_at?: string
+          visibility?: string
         }
         Update: {
+          adaptation_config?: Json
+          archived_at?: string | null
+          auto_publish?: boolean
           created_at?: string
           created_by?: string | null
           description?: string | null
           id?: string
           is_public?: boolean | null
+          parent_topic_id?: string | null
+          question_type_weights?: Json | null
           title?: string
           updated_at?: string
+          visibility?: string
         }
         Relationships: [
           {
@@ -197,33 +695,61 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "topics_parent_topic_id_fkey"
+            columns: ["parent_topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_answers: {
         Row: {
           ai_feedback: string | null
           answered_at: string
+          grading_details: Json | null
+          hints_used: number
           id: string
           is_correct: boolean
+          match_rule: string | null
+          matched_answer: string | null
           question_id: string
+          rescored_at: string | null
+          rubric_results: Json | null
+          score: number
           session_id: string
           user_answer: string
         }
         Insert: {
           ai_feedback?: string | null
           answered_at?: string
+          grading_details?: Json | null
+          hints_used?: number
           id?: string
           is_correct: boolean
+          match_rule?: string | null
+          matched_answer?: string | null
           question_id: string
+          rescored_at?: string | null
+          rubric_results?: Json | null
+          score?: number
           session_id: string
           user_answer: string
         }
         Update: {
           ai_feedback?: string | null
           answered_at?: string
+          grading_details?: Json | null
+          hints_used?: number
           id?: string
           is_correct?: boolean
+          match_rule?: string | null
+          matched_answer?: string | null
           question_id?: string
+          rescored_at?: string | null
+          rubric_results?: Json | null
+          score?: number
           session_id?: string
           user_answer?: string
         }
@@ -246,10 +772,70 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      learner_quiz_sessions: {
+        Row: {
+          completed_at: string | null
+          config: Json | null
+          correct_answers: number | null
+          current_difficulty:
+            | Database["public"]["Enums"]["difficulty_level"]
+            | null
+          current_question_id: string | null
+          deadline_at: string | null
+          end_reason: string | null
+          evolution_suggestions: Json | null
+          focus_area: string | null
+          id: string | null
+          is_active: boolean | null
+          last_activity_at: string | null
+          mastery_score: number | null
+          mode: string | null
+          question_deadline_at: string | null
+          question_type_weights: Json | null
+          started_at: string | null
+          topic_id: string | null
+          total_questions: number | null
+          total_score: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_sessions_current_question_id_fkey"
+            columns: ["current_question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_sessions_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      close_idle_quiz_sessions: {
+        Args: { idle_after?: unknown }
+        Returns: number
+      }
+      fail_stale_generation_jobs: {
+        Args: { stale_after?: unknown }
+        Returns: number
+      }
+      merge_questions: {
+        Args: { keep_id: string; merge_ids: string[] }
+        Returns: undefined
+      }
     }
     Enums: {
       difficulty_level: "easy" | "medium" | "hard"
@@ -0,0 +1,6 @@
+export const REPORT_REASON_LABELS: Record<string, string> = {
+  wrong_answer: 'The marked answer is wrong',
+  ambiguous: 'The question is ambiguous',
+  typo: 'There is a typo or formatting problem',
+  offensive: 'The question is offensive or inappropriate'
+};
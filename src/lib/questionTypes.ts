@@ -0,0 +1,39 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export const QUESTION_TYPES = ['mcq', 'true_false', 'fill_blank', 'short_answer', 'long_answer'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+// Relative weight of each type; 0 turns a type off
+export type TypeWeights = Record<QuestionType, number>;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  true_false: 'True / false',
+  fill_blank: 'Fill in the blank',
+  short_answer: 'Short answer',
+  long_answer: 'Long answer',
+};
+
+// Mirrors the server default in supabase/functions/_shared/questionMix.ts
+export const DEFAULT_TYPE_WEIGHTS: TypeWeights = {
+  mcq: 3,
+  true_false: 1,
+  fill_blank: 2,
+  short_answer: 2,
+  long_answer: 1,
+};
+
+export const typeWeightsFrom = (value: Json | null | undefined): TypeWeights => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_TYPE_WEIGHTS };
+  }
+
+  const weights = {} as TypeWeights;
+  for (const type of QUESTION_TYPES) {
+    const weight = value[type];
+    weights[type] = typeof weight === 'number' && weight > 0 ? weight : 0;
+  }
+
+  return QUESTION_TYPES.some((type) => weights[type] > 0) ? weights : { ...DEFAULT_TYPE_WEIGHTS };
+};
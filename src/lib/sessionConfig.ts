@@ -0,0 +1,52 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Mirrors supabase/functions/_shared/sessionConfig.ts, which enforces these settings
+export type SessionConfig = {
+  question_count: number | null;
+  time_limit_seconds: number | null;
+  question_time_limit_seconds: number | null;
+  feedback: 'immediate' | 'end';
+  adaptive: boolean;
+};
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  question_count: null,
+  time_limit_seconds: null,
+  question_time_limit_seconds: null,
+  feedback: 'immediate',
+  adaptive: true,
+};
+
+const positiveIntegerOrNull = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+
+export const sessionConfigFrom = (value: Json | null | undefined): SessionConfig => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_SESSION_CONFIG };
+  }
+
+  return {
+    question_count: positiveIntegerOrNull(value.question_count),
+    time_limit_seconds: positiveIntegerOrNull(value.time_limit_seconds),
+    question_time_limit_seconds: positiveIntegerOrNull(value.question_time_limit_seconds),
+    feedback: value.feedback === 'end' ? 'end' : 'immediate',
+    adaptive: value.adaptive !== false,
+  };
+};
+
+export const formatRemaining = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Same bounds as the server schema, which would otherwise drop the settings
+export const isValidSessionConfig = (config: SessionConfig) => {
+  const within = (value: number | null, min: number, max: number) =>
+    value === null || (Number.isInteger(value) && value >= min && value <= max);
+
+  return within(config.question_count, 1, 200)
+    && within(config.time_limit_seconds, 30, 4 * 60 * 60)
+    && within(config.question_time_limit_seconds, 5, 60 * 60);
+};
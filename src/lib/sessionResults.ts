@@ -0,0 +1,81 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { QuestionType } from '@/lib/questionTypes';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Shape returned by supabase/functions/session-results
+export interface ResultsSession {
+  id: string;
+  topic_id: string | null;
+  started_at: string;
+  completed_at: string | null;
+  is_active: boolean;
+  end_reason: string | null;
+  config: Json;
+  total_questions: number;
+  // Left out while an exam's grades are withheld
+  correct_answers?: number;
+  total_score?: number;
+  current_difficulty: string | null;
+  topics: { title: string } | null;
+}
+
+export interface ResultsAnswer {
+  id: string;
+  user_answer: string;
+  is_correct: boolean;
+  score: number;
+  ai_feedback: string | null;
+  grading_details: Json | null;
+  rubric_results: Json | null;
+  answered_at: string;
+  rescored_at: string | null;
+  hints_used: number;
+  question: {
+    id: string;
+    question_text: string;
+    question_type: QuestionType;
+    difficulty: Difficulty;
+    correct_answer: string;
+    rationale: string | null;
+  };
+}
+
+export interface SessionResults {
+  session: ResultsSession;
+  withheld: boolean;
+  answers: ResultsAnswer[];
+}
+
+export interface Breakdown {
+  answered: number;
+  score: number;
+}
+
+// Partial credit counts towards accuracy, as on the quiz screen
+export const accuracyOf = ({ answered, score }: Breakdown) =>
+  answered > 0 ? Math.round((score / answered) * 100) : 0;
+
+export const breakdownBy = <K extends string>(answers: ResultsAnswer[], keyOf: (answer: ResultsAnswer) => K) =>
+  answers.reduce((groups, answer) => {
+    const key = keyOf(answer);
+    const group = groups[key] ?? { answered: 0, score: 0 };
+    groups[key] = { answered: group.answered + 1, score: group.score + answer.score };
+    return groups;
+  }, {} as Partial<Record<K, Breakdown>>);
+
+// Seconds spent on each answer, measured from the previous answer or from the start of the session.
+// Time away from a resumed session counts towards the question it was resumed on.
+export const secondsPerAnswer = (startedAt: string, answers: ResultsAnswer[]) =>
+  answers.map((answer, index) => {
+    const from = new Date(index === 0 ? startedAt : answers[index - 1].answered_at).getTime();
+    return Math.max(0, Math.round((new Date(answer.answered_at).getTime() - from) / 1000));
+  });
+
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
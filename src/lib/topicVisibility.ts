@@ -0,0 +1,9 @@
+export const TOPIC_VISIBILITIES = ['public', 'unlisted', 'private'] as const;
+
+export type TopicVisibility = typeof TOPIC_VISIBILITIES[number];
+
+export const TOPIC_VISIBILITY_LABELS: Record<TopicVisibility, { label: string; description: string }> = {
+  public: { label: 'Public', description: 'Listed in Browse Topics for every learner.' },
+  unlisted: { label: 'Unlisted', description: 'Hidden from Browse Topics; anyone with the link can still take it.' },
+  private: { label: 'Private', description: 'Only you can see and take this topic.' },
+};
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,10 +9,15 @@ import { useAuth } from '@/hooks/useAuth';
 
 const Auth = () => {
   const { user, signUp, signIn } = useAuth();
+  const location = useLocation();
   const [isLoading, setIsLoading] = useState(false);
 
+  // Return to the page that sent the user here to sign in
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+
   if (user) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={redirectTo} replace />;
   }
 
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ArrowLeft, CheckCircle, CircleDot, Clock, Trophy, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { QUESTION_TYPE_LABELS, QUESTION_TYPES } from '@/lib/questionTypes';
+import {
+  DIFFICULTIES,
+  accuracyOf,
+  breakdownBy,
+  formatDuration,
+  secondsPerAnswer,
+  type Breakdown,
+  type SessionResults as Results
+} from '@/lib/sessionResults';
+
+const END_REASON_LABELS: Record<string, string> = {
+  completed: 'Completed',
+  restarted: 'Restarted',
+  abandoned: 'Closed after inactivity',
+  timed_out: 'Time ran out'
+};
+
+const DIFFICULTY_LEVELS = { easy: 1, medium: 2, hard: 3 };
+
+const trajectoryConfig = {
+  level: { label: 'Difficulty', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const BreakdownRow = ({ label, breakdown }: { label: string; breakdown: Breakdown }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between text-sm">
+      <span className="font-medium">{label}</span>
+      <span className="text-muted-foreground">
+        {accuracyOf(breakdown)}% • {Math.round(breakdown.score * 10) / 10}/{breakdown.answered}
+      </span>
+    </div>
+    <Progress value={accuracyOf(breakdown)} />
+  </div>
+);
+
+const SessionResults = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const { user } = useAuth();
+  const [results, setResults] = useState<Results | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadResults = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke<Results>('session-results', {
+        body: { sessionId }
+      });
+
+      if (error) throw error;
+      setResults(data);
+    } catch (error) {
+      console.error('Error loading session results:', error);
+      setResults(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (user) {
+      loadResults();
+    }
+  }, [user, loadResults]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const session = results?.session;
+  const answers = results?.answers ?? [];
+  const totalScore = session?.total_score ?? 0;
+  const accuracy = session && session.total_questions > 0
+    ? Math.round((totalScore / session.total_questions) * 100)
+    : 0;
+  const byDifficulty = breakdownBy(answers, (answer) => answer.question.difficulty);
+  const byType = breakdownBy(answers, (answer) => answer.question.question_type);
+  const seconds = session ? secondsPerAnswer(session.started_at, answers) : [];
+  const trajectory = answers.map((answer, index) => ({
+    question: index + 1,
+    level: DIFFICULTY_LEVELS[answer.question.difficulty]
+  }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted">
+      <div className="container mx-auto max-w-4xl p-6 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to="/history">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Quiz History
+          </Link>
+        </Button>
+
+        {!session ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <p>Session not found.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Trophy className="w-5 h-5" />
+                      {session.topics?.title ?? 'Review session'}
+                    </CardTitle>
+                    <CardDescription>
+                      {new Date(session.started_at).toLocaleString()}
+                      {' • '}
+                      {session.is_active ? 'In progress' : END_REASON_LABELS[session.end_reason ?? 'completed']}
+                      {seconds.length > 0 && ` • ${formatDuration(seconds.reduce((total, value) => total + value, 0))}`}
+                    </CardDescription>
+                  </div>
+                  {!results?.withheld && (
+                    <div className="text-right">
+                      <div className="text-3xl font-bold">{accuracy}%</div>
+                      <div className="text-sm text-muted-foreground">
+                        {Math.round(totalScore * 10) / 10}/{session.total_questions}
+                        {' • '}
+                        {session.correct_answers ?? 0} correct
+                      </div>
+                    </div>
+                  )}
+                </div>
+                {!results?.withheld && <Progress value={accuracy} className="w-full" />}
+              </CardHeader>
+            </Card>
+
+            {results?.withheld ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <p>This exam is still running. Your answers and grades will appear here once it ends.</p>
+                </CardContent>
+              </Card>
+            ) : answers.length === 0 ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <p>No questions were answered in this session.</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">By Difficulty</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {DIFFICULTIES.filter((difficulty) => byDifficulty[difficulty]).map((difficulty) => (
+                        <BreakdownRow
+                          key={difficulty}
+                          label={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                          breakdown={byDifficulty[difficulty]!}
+                        />
+                      ))}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">By Question Type</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {QUESTION_TYPES.filter((type) => byType[type]).map((type) => (
+                        <BreakdownRow key={type} label={QUESTION_TYPE_LABELS[type]} breakdown={byType[type]!} />
+                      ))}
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Difficulty Over the Session</CardTitle>
+                    <CardDescription>The difficulty of each question you were asked, in order</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={trajectoryConfig} className="h-48 w-full">
+                      <LineChart data={trajectory} margin={{ left: 12, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="question" tickLine={false} axisLine={false} />
+                        <YAxis
+                          domain={[1, 3]}
+                          ticks={[1, 2, 3]}
+                          tickFormatter={(level: number) => DIFFICULTIES[level - 1]}
+                          tickLine={false}
+                          axisLine={false}
+                        />
+                        <ChartTooltip
+                          content={<ChartTooltipContent formatter={(value) => DIFFICULTIES[Number(value) - 1]} />}
+                        />
+                        <Line dataKey="level" type="stepAfter" stroke="var(--color-level)" strokeWidth={2} />
+                      </LineChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <div className="space-y-4">
+                  <h2 className="text-2xl font-semibold">Your Answers</h2>
+                  {answers.map((answer, index) => (
+                    <Card key={answer.id}>
+                      <CardHeader>
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            {answer.is_correct ? (
+                              <CheckCircle className="w-5 h-5 text-green-500" />
+                            ) : answer.score > 0 ? (
+                              <CircleDot className="w-5 h-5 text-amber-500" />
+                            ) : (
+                              <XCircle className="w-5 h-5 text-red-500" />
+                            )}
+                            <span className="font-semibold">Question {index + 1}</span>
+                            <Badge variant="outline">{QUESTION_TYPE_LABELS[answer.question.question_type]}</Badge>
+                            <Badge variant="secondary">{answer.question.difficulty}</Badge>
+                            {answer.rescored_at && <Badge variant="outline">Re-graded</Badge>}
+                            {answer.hints_used > 0 && (
+                              <Badge variant="outline">
+                                {answer.hints_used} {answer.hints_used === 1 ? 'hint' : 'hints'}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                            <Clock className="w-4 h-4" />
+                            {formatDuration(seconds[index])}
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <p className="font-medium">{answer.question.question_text}</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                          <div>
+                            <p className="text-muted-foreground">Your answer</p>
+                            <p className="whitespace-pre-wrap">{answer.user_answer || <em>No answer</em>}</p>
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">Correct answer</p>
+                            <p className="whitespace-pre-wrap font-medium">{answer.question.correct_answer}</p>
+                          </div>
+                        </div>
+                        {!answer.is_correct && answer.score > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Partial credit: {Math.round(answer.score * 100)}%
+                          </p>
+                        )}
+                        {answer.question.rationale && (
+                          <div className="p-4 bg-muted rounded-lg">
+                            <h4 className="font-semibold mb-2">Explanation:</h4>
+                            <p>{answer.question.rationale}</p>
+                          </div>
+                        )}
+                        {answer.ai_feedback && (
+                          <div className="p-4 bg-blue-50 dark:bg-blue-950 rounded-lg">
+                            <h4 className="font-semibold mb-2">AI Feedback:</h4>
+                            <p>{answer.ai_feedback}</p>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionResults;
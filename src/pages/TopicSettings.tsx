@@ -0,0 +1,349 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Archive, ArchiveRestore, ArrowLeft, Settings, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { TOPIC_VISIBILITIES, TOPIC_VISIBILITY_LABELS, type TopicVisibility } from '@/lib/topicVisibility';
+
+interface DeletionImpact {
+  questions: number;
+  sessions: number;
+  answers: number;
+  learners: number;
+  sources: number;
+  subtopics: number;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const TopicSettings = () => {
+  const { topicId } = useParams<{ topicId: string }>();
+  const navigate = useNavigate();
+  const { user, getUserProfile } = useAuth();
+  const [topic, setTopic] = useState<Tables<'topics'> | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [visibility, setVisibility] = useState<TopicVisibility>('public');
+  const [impact, setImpact] = useState<DeletionImpact | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const applyTopic = (loaded: Tables<'topics'>) => {
+    setTopic(loaded);
+    setTitle(loaded.title);
+    setDescription(loaded.description ?? '');
+    setVisibility(loaded.visibility as TopicVisibility);
+  };
+
+  const loadTopic = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const profile = await getUserProfile();
+      const { data } = await supabase
+        .from('topics')
+        .select('*')
+        .eq('id', topicId)
+        .maybeSingle();
+
+      // Only the owner may change a topic
+      if (data && data.created_by === profile?.id) {
+        applyTopic(data);
+      }
+    } catch (error) {
+      console.error('Error loading topic:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [topicId, getUserProfile]);
+
+  useEffect(() => {
+    if (user) {
+      loadTopic();
+    }
+  }, [user, loadTopic]);
+
+  const updateTopic = async (changes: Partial<Tables<'topics'>>, successMessage: string) => {
+    if (!topic) return;
+    setIsSaving(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('topics')
+        .update(changes)
+        .eq('id', topic.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      applyTopic(data);
+      toast({ title: "Topic updated", description: successMessage });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveDetails = () => {
+    if (!title.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide a topic title",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    updateTopic(
+      { title: title.trim(), description: description.trim(), visibility },
+      'Your changes have been saved.'
+    );
+  };
+
+  const toggleArchived = () => {
+    updateTopic(
+      { archived_at: topic?.archived_at ? null : new Date().toISOString() },
+      topic?.archived_at
+        ? 'The topic is open for practice again.'
+        : 'The topic is hidden and closed to new practice. Past sessions are kept.'
+    );
+  };
+
+  const loadImpact = async (open: boolean) => {
+    if (!open || !topic) return;
+    setImpact(null);
+
+    try {
+      const { data, error } = await supabase.functions.invoke<{ impact: DeletionImpact }>('delete-topic', {
+        body: { topicId: topic.id }
+      });
+
+      if (error) throw error;
+      setImpact(data.impact);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteTopic = async () => {
+    if (!topic) return;
+    setIsDeleting(true);
+
+    try {
+      const { error } = await supabase.functions.invoke('delete-topic', {
+        body: { topicId: topic.id, confirm: true }
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Topic deleted", description: `${topic.title} and everything in it has been removed.` });
+      navigate('/topics', { replace: true });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted">
+      <div className="container mx-auto max-w-3xl p-6 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to="/topics">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Topics
+          </Link>
+        </Button>
+
+        {!topic ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <p>Topic not found, or you are not its owner.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Settings className="w-5 h-5" />
+                  Topic Settings
+                  {topic.archived_at && <Badge variant="secondary">Archived</Badge>}
+                </CardTitle>
+                <CardDescription>Rename the topic, update its description and choose who can see it.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="topic-title">Topic Title</Label>
+                  <Input id="topic-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="topic-description">Description</Label>
+                  <Textarea
+                    id="topic-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Visibility</Label>
+                  <RadioGroup value={visibility} onValueChange={(value) => setVisibility(value as TopicVisibility)}>
+                    {TOPIC_VISIBILITIES.map((option) => (
+                      <div key={option} className="flex items-start space-x-2">
+                        <RadioGroupItem value={option} id={`visibility-${option}`} className="mt-1" />
+                        <Label htmlFor={`visibility-${option}`} className="font-normal space-y-1">
+                          <span className="block font-medium">{TOPIC_VISIBILITY_LABELS[option].label}</span>
+                          <span className="block text-sm text-muted-foreground">
+                            {TOPIC_VISIBILITY_LABELS[option].description}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+
+                <Button onClick={saveDetails} disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Archive</CardTitle>
+                <CardDescription>
+                  Archived topics are hidden from Browse Topics and closed to new practice. Learners keep their
+                  history and scheduled reviews.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button variant="outline" onClick={toggleArchived} disabled={isSaving}>
+                  {topic.archived_at ? (
+                    <>
+                      <ArchiveRestore className="w-4 h-4 mr-2" />
+                      Unarchive Topic
+                    </>
+                  ) : (
+                    <>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Archive Topic
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="border-destructive">
+              <CardHeader>
+                <CardTitle className="text-lg text-destructive">Delete Topic</CardTitle>
+                <CardDescription>
+                  Deleting removes the topic with all of its questions and every learner's sessions and answers.
+                  This cannot be undone.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AlertDialog onOpenChange={loadImpact}>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Topic
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {topic.title}?</AlertDialogTitle>
+                      <AlertDialogDescription asChild>
+                        <div className="space-y-2">
+                          {!impact ? (
+                            <p>Counting what will be removed...</p>
+                          ) : (
+                            <>
+                              <p>This permanently removes:</p>
+                              <ul className="list-disc pl-5">
+                                <li>{plural(impact.questions, 'question')}</li>
+                                <li>
+                                  {plural(impact.sessions, 'quiz session')} with {plural(impact.answers, 'recorded answer')}
+                                </li>
+                                <li>the progress of {plural(impact.learners, 'learner')}</li>
+                                {impact.sources > 0 && <li>{plural(impact.sources, 'source document')}</li>}
+                              </ul>
+                              {impact.subtopics > 0 && (
+                                <p>{plural(impact.subtopics, 'branched topic')} will be kept but no longer linked to this one.</p>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={(e) => {
+                          e.preventDefault();
+                          deleteTopic();
+                        }}
+                        disabled={!impact || isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        {isDeleting ? 'Deleting...' : 'Delete Permanently'}
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TopicSettings;
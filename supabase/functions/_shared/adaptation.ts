@@ -0,0 +1,114 @@
+// Rule-based difficulty adaptation: a sliding window over the answers given since the
+// last difficulty change decides whether to step up, step down or hold. Pure and deterministic.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+const DIFFICULTY_LADDER: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface AdaptationConfig {
+  // Number of most recent answers the accuracy rules look at
+  windowSize: number;
+  // Answers needed at the current level before the accuracy rules apply
+  minAnswers: number;
+  // Window accuracy at or above which difficulty goes up
+  promoteAccuracy: number;
+  // Window accuracy at or below which difficulty goes down
+  demoteAccuracy: number;
+  // Consecutive correct answers that go up immediately
+  promoteStreak: number;
+  // Consecutive incorrect answers that go down immediately
+  demoteStreak: number;
+}
+
+export const DEFAULT_ADAPTATION_CONFIG: AdaptationConfig = {
+  windowSize: 5,
+  minAnswers: 4,
+  promoteAccuracy: 0.8,
+  demoteAccuracy: 0.4,
+  promoteStreak: 3,
+  demoteStreak: 2,
+};
+
+export type AdaptationReason =
+  | 'promote_streak'
+  | 'promote_accuracy'
+  | 'demote_streak'
+  | 'demote_accuracy'
+  | 'hold';
+
+export interface AdaptationInputs {
+  window: boolean[];
+  accuracy: number | null;
+  correctStreak: number;
+  incorrectStreak: number;
+}
+
+export interface AdaptationDecision {
+  previous: Difficulty;
+  next: Difficulty;
+  reason: AdaptationReason;
+  inputs: AdaptationInputs;
+}
+
+// Topics may override any subset of the defaults through topics.adaptation_config
+export const resolveAdaptationConfig = (overrides: unknown): AdaptationConfig => {
+  const config = { ...DEFAULT_ADAPTATION_CONFIG };
+  if (overrides && typeof overrides === 'object') {
+    for (const key of Object.keys(config) as (keyof AdaptationConfig)[]) {
+      const value = (overrides as Record<string, unknown>)[key];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        config[key] = value;
+      }
+    }
+  }
+  return config;
+};
+
+const trailingStreak = (outcomes: boolean[], value: boolean) => {
+  let streak = 0;
+  for (let i = outcomes.length - 1; i >= 0 && outcomes[i] === value; i--) {
+    streak++;
+  }
+  return streak;
+};
+
+const step = (difficulty: Difficulty, delta: number) => {
+  const index = DIFFICULTY_LADDER.indexOf(difficulty) + delta;
+  return DIFFICULTY_LADDER[Math.min(DIFFICULTY_LADDER.length - 1, Math.max(0, index))];
+};
+
+/**
+ * @param current difficulty the session is at
+ * @param outcomes correctness of the answers given since the last difficulty change, oldest first
+ */
+export const decideDifficulty = (
+  current: Difficulty,
+  outcomes: boolean[],
+  config: AdaptationConfig = DEFAULT_ADAPTATION_CONFIG
+): AdaptationDecision => {
+  const window = outcomes.slice(-config.windowSize);
+  const correct = window.filter(Boolean).length;
+  const inputs: AdaptationInputs = {
+    window,
+    accuracy: window.length > 0 ? correct / window.length : null,
+    correctStreak: trailingStreak(outcomes, true),
+    incorrectStreak: trailingStreak(outcomes, false),
+  };
+
+  const decide = (reason: AdaptationReason, delta: number): AdaptationDecision => {
+    const next = step(current, delta);
+    return next === current
+      ? { previous: current, next: current, reason: 'hold', inputs }
+      : { previous: current, next, reason, inputs };
+  };
+
+  if (inputs.correctStreak >= config.promoteStreak) return decide('promote_streak', 1);
+  if (inputs.incorrectStreak >= config.demoteStreak) return decide('demote_streak', -1);
+
+  if (window.length >= config.minAnswers && inputs.accuracy !== null) {
+    if (inputs.accuracy >= config.promoteAccuracy) return decide('promote_accuracy', 1);
+    if (inputs.accuracy <= config.demoteAccuracy) return decide('demote_accuracy', -1);
+  }
+
+  return { previous: current, next: current, reason: 'hold', inputs };
+};
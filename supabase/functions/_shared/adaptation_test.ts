@@ -0,0 +1,39 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { DEFAULT_ADAPTATION_CONFIG, decideDifficulty, resolveAdaptationConfig } from './adaptation.ts';
+
+Deno.test('a correct streak steps difficulty up', () => {
+  const decision = decideDifficulty('medium', [false, true, true, true]);
+
+  assertEquals(decision.next, 'hard');
+  assertEquals(decision.reason, 'promote_streak');
+  assertEquals(decision.inputs.correctStreak, 3);
+});
+
+Deno.test('an incorrect streak steps difficulty down', () => {
+  const decision = decideDifficulty('medium', [true, false, false]);
+
+  assertEquals(decision.next, 'easy');
+  assertEquals(decision.reason, 'demote_streak');
+});
+
+Deno.test('window accuracy decides once enough answers are in', () => {
+  assertEquals(decideDifficulty('easy', [true, true, false, true, true]).reason, 'promote_accuracy');
+  assertEquals(decideDifficulty('hard', [false, true, false, false, true]).reason, 'demote_accuracy');
+  assertEquals(decideDifficulty('medium', [true, false, true]).reason, 'hold');
+});
+
+Deno.test('difficulty holds at either end of the ladder', () => {
+  const top = decideDifficulty('hard', [true, true, true]);
+  const bottom = decideDifficulty('easy', [false, false]);
+
+  assertEquals([top.next, top.reason], ['hard', 'hold']);
+  assertEquals([bottom.next, bottom.reason], ['easy', 'hold']);
+});
+
+Deno.test('topic overrides replace only valid numeric settings', () => {
+  assertEquals(resolveAdaptationConfig({ windowSize: 8, promoteStreak: 'five', demoteStreak: NaN }), {
+    ...DEFAULT_ADAPTATION_CONFIG,
+    windowSize: 8,
+  });
+  assertEquals(resolveAdaptationConfig(null), DEFAULT_ADAPTATION_CONFIG);
+});
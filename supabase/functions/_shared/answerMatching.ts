@@ -0,0 +1,354 @@
+// Deterministic answer matching, tried before any AI grading
+
+export type MatchRule = 'exact' | 'normalized' | 'numeric' | 'set' | 'pattern' | 'typo';
+
+// 'set' answers are lists whose items may be given in any order
+export type AnswerMode = 'single' | 'set';
+
+export interface AnswerKey {
+  correctAnswer: string;
+  acceptedAnswers?: string[];
+  // Regular expressions a correct answer matches in full, case-insensitively
+  patterns?: string[];
+  mode?: AnswerMode;
+}
+
+export interface AnswerMatch {
+  rule: MatchRule;
+  // The accepted answer the learner's answer was matched against
+  matchedAnswer: string;
+}
+
+export interface MatchOptions {
+  // When false only exact (case-insensitive) matches against the listed answers count, as for multiple choice
+  fuzzy?: boolean;
+}
+
+// Question types whose answers are typed in and may differ from the key in form but not in substance
+export const FUZZY_MATCHED_TYPES = ['fill_blank', 'short_answer'];
+
+// Numbers within this relative difference of the expected value are accepted, as long as
+// they also round to the expected value at the precision it was written with
+const NUMERIC_TOLERANCE = 0.001;
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+// Spellings of the same unit, mapped to one canonical form
+const UNIT_ALIASES: Record<string, string> = {
+  '%': '%', percent: '%', pct: '%',
+  m: 'm', meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  cm: 'cm', centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  mm: 'mm', millimeter: 'mm', millimeters: 'mm', millimetre: 'mm', millimetres: 'mm',
+  km: 'km', kilometer: 'km', kilometers: 'km', kilometre: 'km', kilometres: 'km',
+  g: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  s: 's', sec: 's', secs: 's', second: 's', seconds: 's',
+  min: 'min', mins: 'min', minute: 'min', minutes: 'min',
+  h: 'h', hr: 'h', hrs: 'h', hour: 'h', hours: 'h',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  n: 'n', newton: 'n', newtons: 'n',
+  j: 'j', joule: 'j', joules: 'j',
+  w: 'w', watt: 'w', watts: 'w',
+  v: 'v', volt: 'v', volts: 'v',
+  c: 'c', '°c': 'c', celsius: 'c',
+  f: 'f', '°f': 'f', fahrenheit: 'f',
+  k: 'k', kelvin: 'k',
+  deg: 'deg', '°': 'deg', degree: 'deg', degrees: 'deg',
+  rad: 'rad', radian: 'rad', radians: 'rad',
+};
+
+const NUMBER_PATTERN = /^([-+]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:e[-+]?\d+)?)\s*(.*)$/i;
+
+const stripDiacritics = (value: string) => value.normalize('NFD').replace(/\p{M}/gu, '');
+
+// Lowercase, accent-free, punctuation-free text with articles and extra whitespace removed
+export const normalizeAnswer = (value: string) =>
+  stripDiacritics(value.normalize('NFKC'))
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !ARTICLES.has(word))
+    .join(' ');
+
+interface ParsedNumber {
+  value: number;
+  // Half a unit in the last written decimal place
+  precision: number;
+  unit: string | null;
+}
+
+const parseNumber = (value: string): ParsedNumber | null => {
+  const match = value.normalize('NFKC').trim().toLowerCase().match(NUMBER_PATTERN);
+  if (!match || !/\d/.test(match[1])) return null;
+
+  const number = Number(match[1].replace(/,/g, ''));
+  if (!Number.isFinite(number)) return null;
+
+  const [mantissa, exponent = '0'] = match[1].split(/e/i);
+  const decimals = (mantissa.split('.')[1] ?? '').length - Number(exponent);
+  const precision = 0.5 * 10 ** -decimals;
+
+  // Units outside the alias table still have to be written the same way
+  const unitText = match[2].trim().replace(/\.$/, '');
+  const unit = unitText ? UNIT_ALIASES[unitText] ?? unitText.replace(/\s+/g, '') : null;
+  return { value: number, precision, unit };
+};
+
+// A missing unit is accepted, a different unit is not
+const numbersMatch = (answer: ParsedNumber, expected: ParsedNumber) => {
+  if (answer.unit && expected.unit && answer.unit !== expected.unit) return false;
+  if (answer.unit && !expected.unit) return false;
+
+  const tolerance = Math.min(Math.abs(expected.value) * NUMERIC_TOLERANCE, expected.precision);
+  return Math.abs(answer.value - expected.value) <= tolerance + Number.EPSILON;
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short answers must be spelled exactly; longer ones tolerate a typo or two
+const allowedTypos = (length: number) => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  if (length <= 12) return 2;
+  return Math.floor(length * 0.15);
+};
+
+const matchOne = (answer: string, expected: string, fuzzy: boolean): MatchRule | null => {
+  if (answer.toLowerCase().trim() === expected.toLowerCase().trim()) return 'exact';
+  if (!fuzzy) return null;
+
+  const expectedNumber = parseNumber(expected);
+  const answerNumber = parseNumber(answer);
+  if (expectedNumber && answerNumber && numbersMatch(answerNumber, expectedNumber)) return 'numeric';
+
+  const normalizedAnswer = normalizeAnswer(answer);
+  const normalizedExpected = normalizeAnswer(expected);
+  if (!normalizedAnswer || !normalizedExpected) return null;
+  if (normalizedAnswer === normalizedExpected) return 'normalized';
+
+  // Digits carry meaning, so "1991" is never a typo of "1990"
+  if (/\d/.test(normalizedExpected)) return null;
+
+  const distance = editDistance(normalizedAnswer, normalizedExpected);
+  return distance <= allowedTypos(normalizedExpected.length) ? 'typo' : null;
+};
+
+const splitList = (value: string) =>
+  value.split(/[,;\n]|\s+and\s+|\s*&\s*/i).map((item) => item.trim()).filter(Boolean);
+
+// Every listed item has to match a different expected item, in any order
+const setsMatch = (answer: string, expected: string) => {
+  const answerItems = splitList(answer);
+  const remaining = splitList(expected);
+  if (answerItems.length !== remaining.length) return false;
+
+  for (const item of answerItems) {
+    const index = remaining.findIndex((candidate) => matchOne(item, candidate, true));
+    if (index === -1) return false;
+    remaining.splice(index, 1);
+  }
+  return true;
+};
+
+// Patterns are written by topic owners, so keep them short and free of the constructs
+// that make a regular expression backtrack exponentially
+export const MAX_PATTERN_LENGTH = 200;
+
+// Answers longer than this are never tested against a pattern
+const MAX_PATTERN_ANSWER_LENGTH = 200;
+
+// How an atom may repeat: not at all, exactly n times, zero or once (or up to m times),
+// between n and m times, or without limit
+type Quantifier = 'none' | 'fixed' | 'optional' | 'bounded' | 'unbounded';
+
+// The quantifier starting at index, with its length including a lazy marker
+const quantifierAt = (pattern: string, index: number): { kind: Quantifier; length: number } => {
+  const char = pattern[index];
+  let kind: Quantifier = 'none';
+  let length = 0;
+  if (char === '*' || char === '+') {
+    kind = 'unbounded';
+    length = 1;
+  } else if (char === '?') {
+    kind = 'optional';
+    length = 1;
+  } else if (char === '{') {
+    const match = pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+    if (match) {
+      length = match[0].length;
+      const [min, max] = [Number(match[1]), match[2] ? Number(match[3] || Infinity) : Number(match[1])];
+      kind = max === Infinity ? 'unbounded' : min === max ? 'fixed' : min === 0 ? 'optional' : 'bounded';
+    }
+  }
+  if (length > 0 && pattern[index + length] === '?') length++;
+  return { kind, length };
+};
+
+interface GroupScan {
+  // Anything inside repeats, or offers alternatives; repeating the group on top of either backtracks exponentially
+  repeats: boolean;
+  alternates: boolean;
+  // Whether the last required atom is followed only by unbounded repeats, in this branch or an earlier one
+  trailingUnbounded: boolean;
+  trailingInEarlierBranch: boolean;
+  trailingAtOpen: boolean;
+}
+
+// Rejects the constructs that make a regular expression backtrack catastrophically:
+// backreferences, a repeated group that itself repeats or alternates, such as (a+)+ or (a|aa)+,
+// and unbounded repeats with nothing required between them, such as a*a* or \w+\s*\d+
+export const isSafePattern = (pattern: string) => {
+  if (pattern.length > MAX_PATTERN_LENGTH || /\\(?:[1-9]|k<)/.test(pattern)) return false;
+
+  const groups: GroupScan[] = [
+    { repeats: false, alternates: false, trailingUnbounded: false, trailingInEarlierBranch: false, trailingAtOpen: false }
+  ];
+  const current = () => groups[groups.length - 1];
+
+  // Applies the quantifier after an atom; false when it makes the pattern unsafe
+  const quantify = (scan: GroupScan, kind: Quantifier) => {
+    if (kind === 'unbounded') {
+      if (scan.trailingUnbounded) return false;
+      scan.trailingUnbounded = true;
+    } else if (kind !== 'optional') {
+      scan.trailingUnbounded = false;
+    }
+    if (kind === 'bounded' || kind === 'unbounded') scan.repeats = true;
+    return true;
+  };
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    let atomEnd = i + 1;
+
+    if (char === '(') {
+      const prefix = pattern.slice(i + 1).match(/^\?(?:[:=!]|<[=!]|<[^>]*>)/);
+      groups.push({
+        repeats: false,
+        alternates: false,
+        trailingUnbounded: current().trailingUnbounded,
+        trailingInEarlierBranch: false,
+        trailingAtOpen: current().trailingUnbounded
+      });
+      i += 1 + (prefix?.[0].length ?? 0);
+      continue;
+    }
+
+    if (char === '|') {
+      const scan = current();
+      scan.alternates = true;
+      scan.trailingInEarlierBranch ||= scan.trailingUnbounded;
+      scan.trailingUnbounded = scan.trailingAtOpen;
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      if (groups.length === 1) return false;
+      const group = groups.pop()!;
+      const parent = current();
+      const { kind, length } = quantifierAt(pattern, i + 1);
+      if ((kind === 'bounded' || kind === 'unbounded') && (group.repeats || group.alternates)) return false;
+
+      parent.repeats ||= group.repeats || kind === 'bounded' || kind === 'unbounded';
+      parent.alternates ||= group.alternates;
+      const trailingInside = group.trailingUnbounded || group.trailingInEarlierBranch;
+      if (kind === 'unbounded') {
+        if (group.trailingAtOpen) return false;
+        parent.trailingUnbounded = true;
+      } else {
+        parent.trailingUnbounded = trailingInside || (kind === 'optional' && group.trailingAtOpen);
+      }
+      i += 1 + length;
+      continue;
+    }
+
+    if (char === '\\') {
+      atomEnd = i + 2;
+    } else if (char === '[') {
+      atomEnd = i + 1;
+      while (atomEnd < pattern.length && pattern[atomEnd] !== ']') {
+        atomEnd += pattern[atomEnd] === '\\' ? 2 : 1;
+      }
+      atomEnd++;
+    }
+
+    const { kind, length } = quantifierAt(pattern, atomEnd);
+    if (!quantify(current(), kind)) return false;
+    i = atomEnd + length;
+  }
+
+  return groups.length === 1;
+};
+
+const patternMatches = (answer: string, pattern: string) => {
+  const candidate = answer.normalize('NFKC').trim();
+  if (candidate.length > MAX_PATTERN_ANSWER_LENGTH || !isSafePattern(pattern)) return false;
+
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'iu').test(candidate);
+  } catch {
+    return false;
+  }
+};
+
+const RULE_ORDER: MatchRule[] = ['exact', 'normalized', 'numeric', 'set', 'pattern', 'typo'];
+
+// Match an answer against the key, its accepted alternatives and patterns, preferring the strictest rule
+export const matchAnswer = (
+  answer: string,
+  { correctAnswer, acceptedAnswers = [], patterns = [], mode = 'single' }: AnswerKey,
+  { fuzzy = true }: MatchOptions = {}
+): AnswerMatch | null => {
+  let best: AnswerMatch | null = null;
+  const consider = (rule: MatchRule | null, matchedAnswer: string) => {
+    if (rule && (!best || RULE_ORDER.indexOf(rule) < RULE_ORDER.indexOf(best.rule))) {
+      best = { rule, matchedAnswer };
+    }
+  };
+
+  for (const expected of [correctAnswer, ...acceptedAnswers]) {
+    if (!expected?.trim()) continue;
+
+    consider(matchOne(answer, expected, fuzzy), expected);
+    if (fuzzy && mode === 'set' && setsMatch(answer, expected)) {
+      consider('set', expected);
+    }
+  }
+
+  if (fuzzy) {
+    for (const pattern of patterns) {
+      if (patternMatches(answer, pattern)) {
+        consider('pattern', pattern);
+      }
+    }
+  }
+
+  return best;
+};
+
+// Build the key from a questions row
+export const answerKeyOf = (question: {
+  correct_answer: string;
+  accepted_answers?: string[] | null;
+  answer_patterns?: string[] | null;
+  answer_mode?: string | null;
+}): AnswerKey => ({
+  correctAnswer: question.correct_answer,
+  acceptedAnswers: question.accepted_answers ?? [],
+  patterns: question.answer_patterns ?? [],
+  mode: question.answer_mode === 'set' ? 'set' : 'single',
+});
@@ -0,0 +1,79 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { answerKeyOf, isSafePattern, matchAnswer, normalizeAnswer } from './answerMatching.ts';
+
+Deno.test('answers are normalized before comparison', () => {
+  assertEquals(normalizeAnswer('  The Café, au lait! '), 'cafe au lait');
+  assertEquals(matchAnswer('the mitochondria', { correctAnswer: 'Mitochondria' })?.rule, 'normalized');
+});
+
+Deno.test('the strictest matching rule wins', () => {
+  const match = matchAnswer('Paris', { correctAnswer: 'paris', acceptedAnswers: ['Paris'] });
+
+  assertEquals(match?.rule, 'exact');
+});
+
+Deno.test('numbers match within tolerance and never with a different unit', () => {
+  assertEquals(matchAnswer('9.81 m', { correctAnswer: '9.81 meters' })?.rule, 'numeric');
+  assertEquals(matchAnswer('3.14', { correctAnswer: '3.14159' }), null);
+  assertEquals(matchAnswer('9.81 kg', { correctAnswer: '9.81 m' }), null);
+});
+
+Deno.test('longer answers tolerate typos, but digits never do', () => {
+  assertEquals(matchAnswer('photosynthesys', { correctAnswer: 'photosynthesis' })?.rule, 'typo');
+  assertEquals(matchAnswer('1991', { correctAnswer: '1990' }), null);
+  assertEquals(matchAnswer('cat', { correctAnswer: 'car' }), null);
+});
+
+Deno.test('set answers match in any order', () => {
+  const key = { correctAnswer: 'red, green, blue', mode: 'set' as const };
+
+  assertEquals(matchAnswer('blue and red; green', key)?.rule, 'set');
+  assertEquals(matchAnswer('blue, red', key), null);
+});
+
+Deno.test('patterns match the whole answer, case-insensitively', () => {
+  const key = { correctAnswer: 'colour', patterns: ['colou?r'] };
+
+  assertEquals(matchAnswer('COLOR', key)?.rule, 'pattern');
+  assertEquals(matchAnswer('colors', key), null);
+});
+
+Deno.test('multiple choice answers only match exactly', () => {
+  assertEquals(matchAnswer('the mitochondria', { correctAnswer: 'Mitochondria' }, { fuzzy: false }), null);
+  assertEquals(matchAnswer('mitochondria', { correctAnswer: 'Mitochondria' }, { fuzzy: false })?.rule, 'exact');
+});
+
+Deno.test('patterns that can backtrack catastrophically are refused', () => {
+  assert(isSafePattern('colou?r'));
+  assert(isSafePattern('(\\d{3})+'));
+  assert(!isSafePattern('(a+)+'));
+  assert(!isSafePattern('(\\w*)*b'));
+  assert(!isSafePattern('(a)\\1'));
+  assert(!isSafePattern('a'.repeat(201)));
+  assertEquals(matchAnswer(`${'a'.repeat(30)}!`, { correctAnswer: 'x', patterns: ['(a+)+'] }), null);
+});
+
+Deno.test('repeated alternatives and side-by-side unbounded repeats are refused', () => {
+  for (const pattern of ['(a|a)*', '(a|aa)+', 'a*a*a*a*a*a*', '\\w+\\s*\\d+', '(ab)*(cd)*']) {
+    assert(!isSafePattern(pattern), pattern);
+  }
+  for (const pattern of ['\\d+(\\.\\d+)?', '(mr|mrs)\\.? smith', '(,\\d{3})*', '[a-z]+ [a-z]+']) {
+    assert(isSafePattern(pattern), pattern);
+  }
+
+  const started = Date.now();
+  const answer = `${'a'.repeat(199)}!`;
+  for (const pattern of ['(a|a)*', '(a|aa)+', 'a*a*a*a*a*a*']) {
+    assertEquals(matchAnswer(answer, { correctAnswer: 'x', patterns: [pattern] }), null);
+  }
+  assert(Date.now() - started < 1000);
+});
+
+Deno.test('keys are built from question rows', () => {
+  assertEquals(answerKeyOf({ correct_answer: 'H2O', accepted_answers: null, answer_mode: 'list' }), {
+    correctAnswer: 'H2O',
+    acceptedAnswers: [],
+    patterns: [],
+    mode: 'single',
+  });
+});
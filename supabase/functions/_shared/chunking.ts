@@ -0,0 +1,66 @@
+// Splits source material into passages small enough to ground a single question
+
+// Target passage length in characters; paragraphs are packed together up to this size
+const CHUNK_SIZE = 1200;
+// Passages shorter than this carry too little to ask about and are merged or dropped
+const MIN_CHUNK_SIZE = 200;
+
+const splitSentences = (paragraph: string) => paragraph.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [paragraph];
+
+// Overlong paragraphs are broken at sentence boundaries, and sentences at word boundaries
+const splitParagraph = (paragraph: string): string[] => {
+  if (paragraph.length <= CHUNK_SIZE) return [paragraph];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of splitSentences(paragraph)) {
+    if (current && current.length + sentence.length > CHUNK_SIZE) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    if (sentence.length > CHUNK_SIZE) {
+      for (const word of sentence.split(/\s+/)) {
+        if (current && current.length + word.length + 1 > CHUNK_SIZE) {
+          pieces.push(current.trim());
+          current = '';
+        }
+        current += `${word} `;
+      }
+    } else {
+      current += sentence;
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+export const chunkText = (text: string): string[] => {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(splitParagraph);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    // A Markdown heading starts a new passage so it stays with the text it introduces
+    const startsSection = /^#{1,6}\s/.test(paragraph);
+    const headingOnly = /^(#{1,6}\s[^\n]*\s*)+$/.test(current);
+    if (current && !headingOnly && (current.length + paragraph.length + 2 > CHUNK_SIZE || (startsSection && current.length >= MIN_CHUNK_SIZE))) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    if (current.length < MIN_CHUNK_SIZE && chunks.length > 0) {
+      chunks[chunks.length - 1] = `${chunks[chunks.length - 1]}\n\n${current}`;
+    } else {
+      chunks.push(current);
+    }
+  }
+
+  return chunks;
+};
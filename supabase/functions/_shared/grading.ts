@@ -0,0 +1,172 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { generateJson } from './llm/index.ts';
+import type { Rubric } from './questionSchema.ts';
+
+export type Verdict = 'correct' | 'partial' | 'incorrect';
+
+export interface CriterionResult {
+  criterion: string;
+  points: number;
+  awarded: number;
+  feedback: string;
+}
+
+export interface GradeResult {
+  // Credit earned, from 0 (nothing) to 1 (full marks)
+  score: number;
+  verdict: Verdict;
+  strengths: string[];
+  gaps: string[];
+  feedback: string;
+  // Per-criterion breakdown when the question has a rubric
+  criteria?: CriterionResult[];
+}
+
+export interface GradeRequest {
+  question: string;
+  userAnswer: string;
+  correctAnswer: string;
+  questionType: string;
+  // Other forms of the correct answer the topic owner also accepts
+  acceptedAnswers?: string[];
+}
+
+// Scores at or above these count as correct / partially correct
+const CORRECT_THRESHOLD = 0.8;
+const PARTIAL_THRESHOLD = 0.3;
+
+export const verdictFromScore = (score: number): Verdict => {
+  if (score >= CORRECT_THRESHOLD) return 'correct';
+  if (score >= PARTIAL_THRESHOLD) return 'partial';
+  return 'incorrect';
+};
+
+const gradeResultSchema = z.object({
+  score: z.coerce.number().min(0).max(1),
+  strengths: z.array(z.string()).default([]),
+  gaps: z.array(z.string()).default([]),
+  feedback: z.string().trim().min(1),
+});
+
+export const exactMatchResult = (isCorrect: boolean): GradeResult => ({
+  score: isCorrect ? 1 : 0,
+  verdict: isCorrect ? 'correct' : 'incorrect',
+  strengths: [],
+  gaps: [],
+  feedback: '',
+});
+
+// Ask the model for a structured, partial-credit grade of an open-ended answer
+export const gradeWithLlm = async ({ question, userAnswer, correctAnswer, questionType, acceptedAnswers }: GradeRequest): Promise<GradeResult> => {
+  const prompt = `As an AI tutor, please evaluate this student's answer and provide constructive feedback.
+
+Question: ${question}
+Correct Answer: ${correctAnswer}
+${acceptedAnswers?.length ? `Also Accepted: ${acceptedAnswers.join('; ')}
+` : ''}Student's Answer: ${userAnswer}
+Question Type: ${questionType}
+
+Award partial credit: a score of 1 means the answer is fully correct, 0 means it is wrong or missing,
+and values in between reflect how much of the expected answer the student covered.
+
+Keep the feedback encouraging but informative. Be specific about what the student got right and what they could improve.
+
+Respond with JSON in this format:
+{
+  "score": 0.0 to 1.0,
+  "strengths": ["What the student got right"],
+  "gaps": ["What was missing or incorrect"],
+  "feedback": "A short paragraph of feedback and learning tips for the student"
+}`;
+
+  const raw = await generateJson(prompt, {
+    task: 'grade-answer',
+    temperature: 0.2,
+    maxOutputTokens: 512,
+    context: { userAnswer, correctAnswer, questionType }
+  });
+
+  const result = gradeResultSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid grading response: ${result.error.issues.map((issue) => issue.message).join(', ')}`);
+  }
+
+  const score = Math.round(result.data.score * 1000) / 1000;
+  return { ...result.data, score, verdict: verdictFromScore(score) };
+};
+
+const rubricGradeSchema = z.object({
+  criteria: z.array(z.object({
+    criterion: z.string(),
+    awarded: z.coerce.number().min(0),
+    feedback: z.string().default(''),
+  })),
+  feedback: z.string().trim().min(1),
+});
+
+// Score a long answer against each rubric criterion separately
+export const gradeWithRubric = async (
+  { question, userAnswer, correctAnswer, questionType }: GradeRequest,
+  rubric: Rubric
+): Promise<GradeResult> => {
+  const rubricText = rubric
+    .map((item, index) => `${index + 1}. ${item.criterion} (${item.points} points): ${item.descriptor}`)
+    .join('\n');
+
+  const prompt = `As an AI tutor, please grade this student's answer against the rubric below.
+
+Question: ${question}
+Model Answer: ${correctAnswer}
+Student's Answer: ${userAnswer}
+Question Type: ${questionType}
+
+Rubric:
+${rubricText}
+
+Score every criterion independently. Award between 0 and the criterion's points, and explain the award in one sentence.
+Keep the feedback encouraging but informative.
+
+Respond with JSON in this format:
+{
+  "criteria": [
+    { "criterion": "Criterion name exactly as written in the rubric", "awarded": 0, "feedback": "Why these points were awarded" }
+  ],
+  "feedback": "A short paragraph of overall feedback for the student"
+}`;
+
+  const raw = await generateJson(prompt, {
+    task: 'grade-answer',
+    temperature: 0.2,
+    maxOutputTokens: 1024,
+    context: { userAnswer, correctAnswer, questionType, rubric }
+  });
+
+  const result = rubricGradeSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid rubric grading response: ${result.error.issues.map((issue) => issue.message).join(', ')}`);
+  }
+
+  // Points always come from the rubric; results are matched by name, falling back to position
+  const criteria: CriterionResult[] = rubric.map((item, index) => {
+    const graded = result.data.criteria.find((entry) => entry.criterion === item.criterion) ?? result.data.criteria[index];
+    return {
+      criterion: item.criterion,
+      points: item.points,
+      awarded: Math.min(item.points, graded?.awarded ?? 0),
+      feedback: graded?.feedback ?? '',
+    };
+  });
+
+  const totalPoints = criteria.reduce((sum, item) => sum + item.points, 0);
+  const awardedPoints = criteria.reduce((sum, item) => sum + item.awarded, 0);
+  const score = Math.round((awardedPoints / totalPoints) * 1000) / 1000;
+
+  return {
+    score,
+    verdict: verdictFromScore(score),
+    strengths: criteria.filter((item) => item.awarded >= item.points).map((item) => item.criterion),
+    gaps: criteria.filter((item) => item.awarded < item.points / 2).map((item) => item.criterion),
+    feedback: result.data.feedback,
+    criteria,
+  };
+};
@@ -0,0 +1,78 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { generateJson } from './llm/index.ts';
+
+// Hints get stronger with each request: a nudge, then a narrower clue (ruling out
+// distractors on multiple choice questions), then a worked first step
+export const MAX_HINTS = 3;
+
+const HINT_INSTRUCTIONS: Record<number, string> = {
+  1: 'Give a gentle nudge: point the student towards the concept or fact they need, without naming the answer.',
+  2: 'Give a stronger clue that narrows the answer down considerably, without stating it.',
+  3: 'Work through the first step of reaching the answer, stopping short of the final answer itself.',
+};
+
+// Share of a question's score each hint costs, set with the HINT_PENALTY env var
+export const hintPenalty = () => {
+  const penalty = Number(Deno.env.get('HINT_PENALTY') ?? 0.25);
+  return Number.isFinite(penalty) ? Math.min(1, Math.max(0, penalty)) : 0.25;
+};
+
+// Credit left on an answer after the hints taken for it
+export const discountForHints = (score: number, hintsUsed: number) =>
+  Math.round(score * Math.max(0, 1 - hintPenalty() * hintsUsed) * 1000) / 1000;
+
+// Rules out half of the wrong options, keeping at least one distractor in play
+export const eliminateDistractors = (options: string[], correctAnswer: string) => {
+  const distractors = options.filter((option) => option.trim().toLowerCase() !== correctAnswer.trim().toLowerCase());
+  const count = Math.min(distractors.length - 1, Math.max(1, Math.floor(distractors.length / 2)));
+
+  return [...distractors]
+    .sort(() => Math.random() - 0.5)
+    .slice(0, Math.max(0, count));
+};
+
+export interface HintRequest {
+  question: string;
+  correctAnswer: string;
+  questionType: string;
+  level: number;
+  // Hints already given, so the next one builds on them instead of repeating them
+  previousHints: string[];
+  eliminatedOptions?: string[];
+}
+
+const hintSchema = z.object({
+  hint: z.string().trim().min(1),
+});
+
+export const generateHint = async ({ question, correctAnswer, questionType, level, previousHints, eliminatedOptions }: HintRequest) => {
+  const prompt = `As an AI tutor, help a student who is stuck on this question without giving the answer away.
+
+Question: ${question}
+Correct Answer (never reveal it): ${correctAnswer}
+Question Type: ${questionType}
+${previousHints.length ? `Hints already given:
+${previousHints.map((hint, index) => `${index + 1}. ${hint}`).join('\n')}
+` : ''}${eliminatedOptions?.length ? `Options being ruled out for the student: ${eliminatedOptions.join('; ')}
+` : ''}
+${HINT_INSTRUCTIONS[level]} Keep it to one or two sentences.
+
+Respond with JSON in this format:
+{
+  "hint": "The hint for the student"
+}`;
+
+  const raw = await generateJson(prompt, {
+    task: 'give-hint',
+    temperature: 0.4,
+    maxOutputTokens: 256,
+    context: { question, questionType, level }
+  });
+
+  const result = hintSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid hint response: ${result.error.issues.map((issue) => issue.message).join(', ')}`);
+  }
+
+  return result.data.hint;
+};
@@ -0,0 +1,169 @@
+import type { LlmTask } from './types.ts';
+
+type Context = Record<string, unknown>;
+
+// Small deterministic hash so the same prompt always yields the same fixture variant
+export const hashPrompt = (prompt: string) => {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) {
+    hash = (hash * 31 + prompt.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// Aspects of the topic and phrasings to ask about them, so successive stub questions read as
+// different questions rather than tripping near-duplicate detection
+const ASPECTS = [
+  'the core definition and where its boundaries lie',
+  'a common misconception that trips up newcomers',
+  'the historical origin of its central ideas',
+  'a practical application found in industry today',
+  'the underlying cause behind its main effects',
+  'a typical worked example with realistic numbers',
+  'the key terminology specialists rely on daily',
+  'the main limitation critics keep pointing out',
+  'how experts measure progress over several years',
+  'the first principle everything else builds upon',
+  'an everyday analogy that makes abstract parts concrete',
+  'the most surprising consequence discovered by researchers',
+]
+
+type Phrasing = (aspect: string, topic: string) => string;
+
+const QUESTION_PHRASINGS: Record<string, Phrasing[]> = {
+  true_false: [
+    (aspect, topic) => `True or false: ${aspect} is central to ${topic}.`,
+    (aspect, topic) => `True or false: beginners studying ${topic} usually start with ${aspect}.`,
+    (aspect, topic) => `True or false: without ${aspect}, ${topic} would be hard to explain.`,
+  ],
+  fill_blank: [
+    (aspect, topic) => `In ${topic}, ${aspect} is best summed up as _____.`,
+    (aspect, topic) => `A textbook on ${topic} would introduce ${aspect} with the word _____.`,
+    (aspect, topic) => `When teachers cover ${aspect}, students of ${topic} should write down _____.`,
+  ],
+  short_answer: [
+    (aspect, topic) => `Explain ${aspect} in ${topic}.`,
+    (aspect, topic) => `Briefly describe why ${aspect} matters when studying ${topic}.`,
+    (aspect, topic) => `In one or two sentences, what does ${aspect} tell us about ${topic}?`,
+  ],
+  long_answer: [
+    (aspect, topic) => `Discuss ${aspect} in ${topic} in detail.`,
+    (aspect, topic) => `Write a short essay on how ${aspect} shapes our understanding of ${topic}.`,
+    (aspect, topic) => `Critically evaluate ${aspect}, drawing on what you know about ${topic}.`,
+  ],
+  mcq: [
+    (aspect, topic) => `Which option best describes ${aspect} in ${topic}?`,
+    (aspect, topic) => `Someone new to ${topic} asks about ${aspect}. Which answer should they get?`,
+    (aspect, topic) => `Pick the statement about ${aspect} that a ${topic} expert would agree with.`,
+  ],
+};
+
+const questionFixture = (context: Context, variant: number) => {
+  const topic = String(context.topicTitle ?? 'the topic');
+  const difficulty = String(context.difficulty ?? 'medium');
+  const questionType = String(context.questionType ?? 'mcq');
+  // Counting through the topic's questions walks every aspect and phrasing before repeating one
+  const index = typeof context.questionNumber === 'number' ? context.questionNumber : variant;
+  const aspect = ASPECTS[index % ASPECTS.length];
+  const phrasings = QUESTION_PHRASINGS[questionType] ?? QUESTION_PHRASINGS.mcq;
+  const questionText = phrasings[Math.floor(index / ASPECTS.length) % phrasings.length](aspect, topic);
+
+  const base = {
+    difficulty,
+    question_type: questionType,
+    question_text: questionText,
+    rationale: `Canned rationale for ${aspect} of ${topic}.`,
+  };
+
+  switch (questionType) {
+    case 'true_false':
+      return {
+        ...base,
+        correct_answer: 'true',
+      };
+    case 'fill_blank':
+      return {
+        ...base,
+        correct_answer: `stub ${variant}`,
+        accepted_answers: [`stub number ${variant}`],
+      };
+    case 'short_answer':
+      return {
+        ...base,
+        correct_answer: `${aspect} of ${topic} is the stub explanation.`,
+      };
+    case 'long_answer':
+      return {
+        ...base,
+        correct_answer: `${aspect} of ${topic} is the stub explanation, illustrated by the stub example.`,
+        rubric: [
+          { criterion: 'Key idea', points: 2, descriptor: 'States the stub explanation' },
+          { criterion: 'Example', points: 1, descriptor: 'Gives the stub example' },
+        ],
+      };
+    default:
+      return {
+        ...base,
+        options: [`Answer ${variant}`, `Distractor ${variant}-1`, `Distractor ${variant}-2`, `Distractor ${variant}-3`],
+        correct_answer: `Answer ${variant}`,
+      };
+  }
+};
+
+const gradeFixture = (context: Context) => {
+  const userAnswer = String(context.userAnswer ?? '').trim().toLowerCase();
+  const correctAnswer = String(context.correctAnswer ?? '').trim().toLowerCase();
+  const matches = userAnswer === correctAnswer;
+
+  if (Array.isArray(context.rubric)) {
+    return {
+      criteria: context.rubric.map((item: { criterion: string; points: number }) => ({
+        criterion: item.criterion,
+        awarded: matches ? item.points : 0,
+        feedback: matches ? 'Stub: criterion met.' : 'Stub: criterion not met.',
+      })),
+      feedback: 'Stub rubric feedback.',
+    };
+  }
+
+  return matches
+    ? {
+      score: 1,
+      strengths: ['Matches the expected answer'],
+      gaps: [],
+      feedback: 'Stub feedback: your answer matches the expected answer.',
+    }
+    : {
+      score: 0,
+      strengths: [],
+      gaps: ['Differs from the expected answer'],
+      feedback: 'Stub feedback: your answer differs from the expected answer. Review the explanation and try again.',
+    };
+};
+
+const evolveFixture = () => ({
+  action: 'continue',
+  reasoning: 'Stub provider always continues with the current approach.',
+  suggested_topic: null,
+  focus_area: null,
+  message_to_user: 'Keep going, you are making progress!',
+});
+
+const hintFixture = (context: Context) => ({
+  hint: `Stub hint ${context.level ?? 1}: think about what the question is really asking.`,
+});
+
+export const renderFixture = (task: LlmTask, prompt: string, context: Context): unknown => {
+  const variant = hashPrompt(prompt) % 1000;
+
+  switch (task) {
+    case 'generate-question':
+      return questionFixture(context, variant);
+    case 'grade-answer':
+      return gradeFixture(context);
+    case 'evolve-quiz':
+      return evolveFixture();
+    case 'give-hint':
+      return hintFixture(context);
+  }
+};
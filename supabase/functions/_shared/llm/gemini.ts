@@ -0,0 +1,49 @@
+import type { GenerateOptions, LlmProvider } from './types.ts';
+
+export const createGeminiProvider = (): LlmProvider => {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('Gemini API key not found');
+  }
+
+  const model = Deno.env.get('GEMINI_MODEL') || 'gemini-2.0-flash';
+
+  return {
+    name: 'gemini',
+    async generateText(prompt: string, options: GenerateOptions) {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [{
+            parts: [{
+              text: prompt
+            }]
+          }],
+          generationConfig: {
+            temperature: options.temperature ?? 0.7,
+            topK: 40,
+            topP: 0.95,
+            maxOutputTokens: options.maxOutputTokens ?? 1024,
+            ...(options.json ? { responseMimeType: 'application/json' } : {}),
+          }
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(`Gemini API error: ${data.error?.message || 'Unknown error'}`);
+      }
+
+      const generatedText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!generatedText) {
+        throw new Error('No content generated');
+      }
+
+      return generatedText;
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { createGeminiProvider } from './gemini.ts';
+import { createOpenAiProvider } from './openai.ts';
+import { createStubProvider } from './stub.ts';
+import type { GenerateOptions, LlmProvider } from './types.ts';
+
+export type { GenerateOptions, LlmProvider, LlmTask } from './types.ts';
+
+const providers: Record<string, () => LlmProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  stub: createStubProvider,
+};
+
+// Selected with the LLM_PROVIDER env var; Gemini remains the default
+export const getProvider = (): LlmProvider => {
+  const name = Deno.env.get('LLM_PROVIDER') || 'gemini';
+  const createProvider = providers[name];
+  if (!createProvider) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return createProvider();
+};
+
+export const generateText = (prompt: string, options: GenerateOptions) =>
+  getProvider().generateText(prompt, options);
+
+// Pull the first JSON object out of a model reply, tolerating code fences and chatter
+export const extractJson = (text: string): unknown => {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Invalid JSON format in response');
+  }
+  return JSON.parse(jsonMatch[0]);
+};
+
+export const generateJson = async <T = unknown>(prompt: string, options: GenerateOptions): Promise<T> => {
+  const text = await generateText(prompt, { ...options, json: true });
+  return extractJson(text) as T;
+};
@@ -0,0 +1,45 @@
+import type { GenerateOptions, LlmProvider } from './types.ts';
+
+// Works against OpenAI itself or any server exposing the same chat completions API
+export const createOpenAiProvider = (): LlmProvider => {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new Error('OpenAI API key not found');
+  }
+
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const model = Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini';
+
+  return {
+    name: 'openai',
+    async generateText(prompt: string, options: GenerateOptions) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.maxOutputTokens ?? 1024,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${data.error?.message || 'Unknown error'}`);
+      }
+
+      const generatedText = data.choices?.[0]?.message?.content;
+      if (!generatedText) {
+        throw new Error('No content generated');
+      }
+
+      return generatedText;
+    }
+  };
+};
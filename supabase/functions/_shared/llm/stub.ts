@@ -0,0 +1,11 @@
+import { renderFixture } from './fixtures.ts';
+import type { GenerateOptions, LlmProvider } from './types.ts';
+
+// Offline provider returning canned fixtures, for local development and tests
+export const createStubProvider = (): LlmProvider => ({
+  name: 'stub',
+  async generateText(prompt: string, options: GenerateOptions) {
+    const fixture = renderFixture(options.task, prompt, options.context ?? {});
+    return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+  }
+});
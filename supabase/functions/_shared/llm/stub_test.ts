@@ -0,0 +1,23 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findNearDuplicate } from '../similarity.ts';
+import { createStubProvider } from './stub.ts';
+
+Deno.test('successive stub questions for a topic are not near-duplicates of each other', async () => {
+  const provider = createStubProvider();
+  const existing: { id: string; question_text: string }[] = [];
+
+  for (const questionType of ['mcq', 'true_false', 'fill_blank', 'short_answer', 'long_answer']) {
+    for (let i = 0; i < 4; i++) {
+      // Like generate-question, each prompt lists the questions the topic already has
+      const prompt = `Generate a ${questionType} question for the topic: "Photosynthesis".\n\n${existing.map((q) => `Q: ${q.question_text}`).join('\n')}`;
+      const raw = await provider.generateText(prompt, {
+        task: 'generate-question',
+        context: { topicTitle: 'Photosynthesis', difficulty: 'medium', questionType, questionNumber: existing.length }
+      });
+      const { question_text } = JSON.parse(raw);
+
+      assertEquals(findNearDuplicate(question_text, existing), null);
+      existing.push({ id: String(existing.length), question_text });
+    }
+  }
+});
@@ -0,0 +1,17 @@
+// Identifies which feature is calling the model; the stub provider uses it to pick a fixture
+export type LlmTask = 'generate-question' | 'grade-answer' | 'evolve-quiz' | 'give-hint';
+
+export interface GenerateOptions {
+  task: LlmTask;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask the provider for a bare JSON document instead of prose
+  json?: boolean;
+  // Structured inputs behind the prompt, so the stub can answer without parsing it
+  context?: Record<string, unknown>;
+}
+
+export interface LlmProvider {
+  name: string;
+  generateText(prompt: string, options: GenerateOptions): Promise<string>;
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Bayesian Knowledge Tracing: the probability a learner has mastered a topic,
+// updated from each observed answer. The update itself is pure and deterministic so it can be unit tested.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface MasteryParams {
+  // Prior probability of mastery before any answers
+  pInit: number;
+  // Probability of acquiring the skill between two answers
+  pLearn: number;
+  // Probability of answering wrong despite mastery, per question difficulty
+  pSlip: Record<Difficulty, number>;
+  // Probability of answering right without mastery, per question difficulty
+  pGuess: Record<Difficulty, number>;
+}
+
+// Easy questions are easier to guess, hard ones easier to slip on
+export const DEFAULT_MASTERY_PARAMS: MasteryParams = {
+  pInit: 0.2,
+  pLearn: 0.15,
+  pSlip: { easy: 0.05, medium: 0.1, hard: 0.15 },
+  pGuess: { easy: 0.3, medium: 0.2, hard: 0.1 },
+};
+
+export interface MasteryObservation {
+  // Credit earned on the answer, 0 to 1; partial credit blends the correct and incorrect updates
+  score: number;
+  difficulty: Difficulty;
+}
+
+const clamp = (value: number) => Math.min(0.9999, Math.max(0.0001, value));
+
+export const updateMastery = (
+  pKnown: number | null | undefined,
+  observation: MasteryObservation,
+  params: MasteryParams = DEFAULT_MASTERY_PARAMS
+): number => {
+  const prior = clamp(pKnown ?? params.pInit);
+  const pSlip = params.pSlip[observation.difficulty];
+  const pGuess = params.pGuess[observation.difficulty];
+
+  const posteriorIfCorrect = (prior * (1 - pSlip)) / (prior * (1 - pSlip) + (1 - prior) * pGuess);
+  const posteriorIfIncorrect = (prior * pSlip) / (prior * pSlip + (1 - prior) * (1 - pGuess));
+  const score = Math.min(1, Math.max(0, observation.score));
+  const posterior = score * posteriorIfCorrect + (1 - score) * posteriorIfIncorrect;
+
+  const next = posterior + (1 - posterior) * params.pLearn;
+  return Math.round(clamp(next) * 10000) / 10000;
+};
+
+// Times an answer is re-applied when other answers keep landing between reading and writing the row
+const MAX_MASTERY_WRITE_ATTEMPTS = 5;
+
+// Records an answer against a learner's topic mastery. The row is only written if its attempt
+// count is still the one the update was computed from; otherwise the update is recomputed from
+// the fresh row, so concurrent answers each build on the other's update instead of overwriting it.
+export const recordTopicMastery = async (
+  supabase: SupabaseClient,
+  userId: string,
+  topicId: string,
+  observation: MasteryObservation & { correct: boolean }
+): Promise<number> => {
+  for (let attempt = 1; attempt <= MAX_MASTERY_WRITE_ATTEMPTS; attempt++) {
+    const { data: current, error: readError } = await supabase
+      .from('topic_mastery')
+      .select('mastery, attempts, correct_attempts')
+      .eq('user_id', userId)
+      .eq('topic_id', topicId)
+      .maybeSingle();
+
+    if (readError) {
+      throw readError;
+    }
+
+    const mastery = updateMastery(current ? Number(current.mastery) : null, observation);
+    const correctAttempts = (current?.correct_attempts ?? 0) + (observation.correct ? 1 : 0);
+
+    if (!current) {
+      const { error: insertError } = await supabase
+        .from('topic_mastery')
+        .insert({ user_id: userId, topic_id: topicId, mastery, attempts: 1, correct_attempts: correctAttempts });
+
+      // Another answer created the row first; build on it instead
+      if (insertError?.code === '23505') continue;
+      if (insertError) {
+        throw insertError;
+      }
+      return mastery;
+    }
+
+    const { data: written, error: updateError } = await supabase
+      .from('topic_mastery')
+      .update({ mastery, attempts: current.attempts + 1, correct_attempts: correctAttempts })
+      .eq('user_id', userId)
+      .eq('topic_id', topicId)
+      .eq('attempts', current.attempts)
+      .select('id');
+
+    if (updateError) {
+      throw updateError;
+    }
+    if (written && written.length > 0) {
+      return mastery;
+    }
+  }
+
+  throw new Error(`Topic mastery changed under ${MAX_MASTERY_WRITE_ATTEMPTS} consecutive attempts to record an answer`);
+};
@@ -0,0 +1,105 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_MASTERY_PARAMS, recordTopicMastery, updateMastery } from './mastery.ts';
+
+Deno.test('a first answer starts from the prior', () => {
+  const correct = updateMastery(null, { score: 1, difficulty: 'medium' });
+  const incorrect = updateMastery(undefined, { score: 0, difficulty: 'medium' });
+
+  assert(correct > DEFAULT_MASTERY_PARAMS.pInit);
+  assert(incorrect < correct);
+});
+
+Deno.test('correct answers raise mastery and incorrect ones lower it', () => {
+  assert(updateMastery(0.5, { score: 1, difficulty: 'medium' }) > 0.5);
+  assert(updateMastery(0.5, { score: 0, difficulty: 'medium' }) < 0.5);
+});
+
+Deno.test('partial credit lands between the correct and incorrect updates', () => {
+  const correct = updateMastery(0.5, { score: 1, difficulty: 'medium' });
+  const incorrect = updateMastery(0.5, { score: 0, difficulty: 'medium' });
+  const partial = updateMastery(0.5, { score: 0.5, difficulty: 'medium' });
+
+  assert(partial > incorrect && partial < correct);
+});
+
+Deno.test('a correct hard answer is stronger evidence than a correct easy one', () => {
+  assert(updateMastery(0.5, { score: 1, difficulty: 'hard' }) > updateMastery(0.5, { score: 1, difficulty: 'easy' }));
+});
+
+Deno.test('mastery stays inside (0, 1) and is rounded to four places', () => {
+  const high = updateMastery(1, { score: 1, difficulty: 'hard' });
+  const low = updateMastery(0, { score: 0, difficulty: 'easy' });
+
+  assert(high < 1 && low > 0);
+  assertEquals(high, Math.round(high * 10000) / 10000);
+  assertEquals(updateMastery(0.5, { score: 2, difficulty: 'medium' }), updateMastery(0.5, { score: 1, difficulty: 'medium' }));
+});
+
+interface MasteryRow {
+  mastery: number;
+  attempts: number;
+  correct_attempts: number;
+}
+
+// Just enough of the query builder for recordTopicMastery, over a single topic_mastery row.
+// beforeWrite runs ahead of each update, standing in for an answer recorded concurrently.
+const fakeMasteryTable = (initial: MasteryRow | null, beforeWrite?: (row: MasteryRow | null) => MasteryRow | null) => {
+  const table = { row: initial };
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ eq: () => ({ maybeSingle: async () => ({ data: table.row && { ...table.row }, error: null }) }) }),
+      }),
+      insert: async (values: MasteryRow) => {
+        if (table.row) return { error: { code: '23505' } };
+        table.row = { mastery: values.mastery, attempts: values.attempts, correct_attempts: values.correct_attempts };
+        return { error: null };
+      },
+      update: (values: MasteryRow) => ({
+        eq: () => ({
+          eq: () => ({
+            eq: (_column: string, attempts: number) => ({
+              select: async () => {
+                table.row = beforeWrite ? beforeWrite(table.row) : table.row;
+                if (table.row?.attempts !== attempts) return { data: [], error: null };
+                table.row = values;
+                return { data: [{ id: 'row' }], error: null };
+              },
+            }),
+          }),
+        }),
+      }),
+    }),
+  };
+  return { table, supabase: client as unknown as SupabaseClient };
+};
+
+Deno.test('a first answer creates the mastery row', async () => {
+  const { table, supabase } = fakeMasteryTable(null);
+  const mastery = await recordTopicMastery(supabase, 'user', 'topic', { score: 1, difficulty: 'medium', correct: true });
+
+  assertEquals(mastery, updateMastery(null, { score: 1, difficulty: 'medium' }));
+  assertEquals(table.row, { mastery, attempts: 1, correct_attempts: 1 });
+});
+
+Deno.test('an answer recorded in between is built on rather than overwritten', async () => {
+  let interleaved = false;
+  const { table, supabase } = fakeMasteryTable({ mastery: 0.5, attempts: 3, correct_attempts: 2 }, (row) => {
+    if (interleaved || !row) return row;
+    interleaved = true;
+    return { mastery: updateMastery(row.mastery, { score: 0, difficulty: 'hard' }), attempts: 4, correct_attempts: 2 };
+  });
+
+  const mastery = await recordTopicMastery(supabase, 'user', 'topic', { score: 1, difficulty: 'easy', correct: true });
+  const expected = updateMastery(updateMastery(0.5, { score: 0, difficulty: 'hard' }), { score: 1, difficulty: 'easy' });
+
+  assertEquals(mastery, expected);
+  assertEquals(table.row, { mastery: expected, attempts: 5, correct_attempts: 3 });
+});
+
+Deno.test('recording gives up when the row never stops changing', async () => {
+  const { supabase } = fakeMasteryTable({ mastery: 0.5, attempts: 3, correct_attempts: 2 }, (row) => row && { ...row, attempts: row.attempts + 1 });
+
+  await assertRejects(() => recordTopicMastery(supabase, 'user', 'topic', { score: 1, difficulty: 'medium', correct: true }));
+});
@@ -0,0 +1,76 @@
+// Question type preferences: relative weights per type, set on the topic and narrowed per session.
+// A type with weight 0 is never served or generated.
+import { QUESTION_TYPES, type QuestionType } from './questionSchema.ts';
+
+export type TypeWeights = Record<QuestionType, number>;
+
+export const DEFAULT_TYPE_WEIGHTS: TypeWeights = {
+  mcq: 3,
+  true_false: 1,
+  fill_blank: 2,
+  short_answer: 2,
+  long_answer: 1,
+};
+
+const parseWeights = (value: unknown): TypeWeights | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const weights = {} as TypeWeights;
+  for (const type of QUESTION_TYPES) {
+    const weight = (value as Record<string, unknown>)[type];
+    weights[type] = typeof weight === 'number' && Number.isFinite(weight) && weight > 0 ? weight : 0;
+  }
+
+  return QUESTION_TYPES.some((type) => weights[type] > 0) ? weights : null;
+};
+
+// The first usable set of weights wins, so pass the session's before the topic's
+export const resolveTypeWeights = (...candidates: unknown[]): TypeWeights => {
+  for (const candidate of candidates) {
+    const weights = parseWeights(candidate);
+    if (weights) return weights;
+  }
+  return { ...DEFAULT_TYPE_WEIGHTS };
+};
+
+export const enabledTypes = (weights: TypeWeights): QuestionType[] =>
+  QUESTION_TYPES.filter((type) => weights[type] > 0);
+
+// Weighted random choice, optionally restricted to the types actually on offer
+export const pickQuestionType = (
+  weights: TypeWeights,
+  available: readonly string[] = QUESTION_TYPES,
+  random = Math.random
+): QuestionType | null => {
+  const choices = enabledTypes(weights).filter((type) => available.includes(type));
+  const total = choices.reduce((sum, type) => sum + weights[type], 0);
+  if (total === 0) return null;
+
+  let target = random() * total;
+  for (const type of choices) {
+    target -= weights[type];
+    if (target < 0) return type;
+  }
+  return choices[choices.length - 1];
+};
+
+// Split a batch of questions across types in proportion to their weights (largest remainder)
+export const allocateQuestionTypes = (weights: TypeWeights, count: number): QuestionType[] => {
+  const enabled = enabledTypes(weights);
+  const total = enabled.reduce((sum, type) => sum + weights[type], 0);
+  if (total === 0) return [];
+
+  const shares = enabled.map((type) => {
+    const exact = (weights[type] / total) * count;
+    return { type, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let assigned = shares.reduce((sum, share) => sum + share.count, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (assigned >= count) break;
+    share.count += 1;
+    assigned += 1;
+  }
+
+  return shares.flatMap((share) => Array<QuestionType>(share.count).fill(share.type));
+};
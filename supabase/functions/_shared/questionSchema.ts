@@ -0,0 +1,143 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { MAX_PATTERN_LENGTH, isSafePattern } from './answerMatching.ts';
+
+export const QUESTION_TYPES = ['mcq', 'fill_blank', 'short_answer', 'long_answer', 'true_false'] as const;
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export const ANSWER_MODES = ['single', 'set'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+export type Difficulty = typeof DIFFICULTIES[number];
+
+const BLANK_MARKER = /_{3,}/;
+
+// Grading criteria with point weights, attached to long_answer questions
+export const rubricSchema = z.array(z.object({
+  criterion: z.string().trim().min(1, 'criterion is required'),
+  points: z.coerce.number().positive('points must be positive'),
+  descriptor: z.string().trim().min(1, 'descriptor is required'),
+})).min(1, 'a rubric needs at least one criterion');
+
+export type Rubric = z.infer<typeof rubricSchema>;
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'iu');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Alternatives to correct_answer for typed answers, editable by the topic owner
+export const answerKeySchema = z.object({
+  accepted_answers: z.array(z.string().trim().min(1, 'accepted answers must not be blank')).default([]),
+  answer_patterns: z.array(
+    z.string().trim().min(1, 'answer patterns must not be blank')
+      .max(MAX_PATTERN_LENGTH, `answer patterns must be at most ${MAX_PATTERN_LENGTH} characters`)
+      .refine(isValidPattern, 'answer patterns must be valid regular expressions')
+      .refine(isSafePattern, 'answer patterns must not repeat a group that repeats or has alternatives, put unbounded repeats side by side, or use backreferences')
+  ).default([]),
+  answer_mode: z.enum(ANSWER_MODES).default('single'),
+});
+
+export type AnswerKeyFields = z.infer<typeof answerKeySchema>;
+
+const baseFields = {
+  question_text: z.string().trim().min(10, 'question_text is too short'),
+  difficulty: z.enum(DIFFICULTIES),
+  rationale: z.string().trim().min(1, 'rationale is required'),
+  correct_answer: z.string().trim().min(1, 'correct_answer is required'),
+};
+
+const mcqSchema = z.object({
+  ...baseFields,
+  question_type: z.literal('mcq'),
+  options: z.array(z.string().trim().min(1, 'options must not be blank'))
+    .length(4, 'MCQ questions must have exactly 4 options'),
+}).superRefine((question, ctx) => {
+  const normalized = question.options.map((option) => option.toLowerCase());
+  if (new Set(normalized).size !== normalized.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'options must be unique' });
+  }
+  if (!question.options.includes(question.correct_answer)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['correct_answer'],
+      message: 'correct_answer must exactly match one of the options',
+    });
+  }
+});
+
+const trueFalseSchema = z.object({
+  ...baseFields,
+  question_type: z.literal('true_false'),
+  correct_answer: z.string().trim().toLowerCase()
+    .pipe(z.enum(['true', 'false'], { message: 'true_false answers must be "true" or "false"' })),
+  options: z.null().optional(),
+});
+
+const fillBlankSchema = z.object({
+  ...baseFields,
+  question_type: z.literal('fill_blank'),
+  question_text: baseFields.question_text.regex(BLANK_MARKER, 'fill_blank questions must mark the blank with _____'),
+  options: z.null().optional(),
+  ...answerKeySchema.shape,
+});
+
+const shortAnswerSchema = z.object({
+  ...baseFields,
+  question_type: z.literal('short_answer'),
+  options: z.null().optional(),
+  ...answerKeySchema.shape,
+});
+
+const longAnswerSchema = z.object({
+  ...baseFields,
+  question_type: z.literal('long_answer'),
+  options: z.null().optional(),
+  rubric: rubricSchema.optional(),
+});
+
+export const questionSchemas = {
+  mcq: mcqSchema,
+  true_false: trueFalseSchema,
+  fill_blank: fillBlankSchema,
+  short_answer: shortAnswerSchema,
+  long_answer: longAnswerSchema,
+};
+
+export type GeneratedQuestion = z.infer<typeof questionSchemas[QuestionType]>;
+
+export type ValidationResult =
+  | { success: true; question: GeneratedQuestion }
+  | { success: false; issues: string[] };
+
+// Validate model output against the schema of the question type that was asked for
+export const validateGeneratedQuestion = (
+  data: unknown,
+  questionType: QuestionType,
+  difficulty: Difficulty
+): ValidationResult => {
+  const result = questionSchemas[questionType].safeParse(data);
+
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  if (result.data.difficulty !== difficulty) {
+    return { success: false, issues: [`difficulty: expected "${difficulty}"`] };
+  }
+
+  return { success: true, question: result.data };
+};
+
+export const isQuestionType = (value: unknown): value is QuestionType =>
+  QUESTION_TYPES.includes(value as QuestionType);
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  DIFFICULTIES.includes(value as Difficulty);
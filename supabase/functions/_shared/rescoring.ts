@@ -0,0 +1,66 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { answerKeyOf, matchAnswer, FUZZY_MATCHED_TYPES } from './answerMatching.ts';
+import { exactMatchResult } from './grading.ts';
+import { discountForHints } from './hints.ts';
+
+// Question types graded only against the key, so a changed key decides every past answer
+const KEY_GRADED_TYPES = ['mcq', 'true_false'];
+
+type RescoredQuestion = Parameters<typeof answerKeyOf>[0] & { id: string; question_type: string };
+
+// Re-grades every recorded answer to a question after its owner corrects the key.
+// Answers that now match earn full credit; answers that only matched the old key lose it.
+// AI-graded answers that still match nothing keep their grade, since re-grading them
+// would need the model. Blank, late and timed-out answers were never gradeable and stay
+// at no credit. Session counters follow through the user_answers update trigger.
+export const rescoreAnswers = async (supabase: SupabaseClient, question: RescoredQuestion) => {
+  const { data: answers, error } = await supabase
+    .from('user_answers')
+    .select('id, user_answer, is_correct, score, match_rule, hints_used, grading_details')
+    .eq('question_id', question.id);
+
+  if (error) {
+    throw error;
+  }
+
+  const questionType = question.question_type;
+  const key = answerKeyOf(question);
+  const fuzzy = FUZZY_MATCHED_TYPES.includes(questionType);
+  let rescored = 0;
+
+  for (const answer of answers ?? []) {
+    if (!answer.user_answer?.trim() || answer.grading_details?.ungraded) {
+      continue;
+    }
+
+    const match = matchAnswer(answer.user_answer, key, { fuzzy });
+    const decidedByKey = !!match || !!answer.match_rule || KEY_GRADED_TYPES.includes(questionType);
+    const grade = exactMatchResult(!!match);
+    // Hints taken before answering still count against the new grade
+    const score = discountForHints(grade.score, answer.hints_used ?? 0);
+
+    if (!decidedByKey || (answer.is_correct === !!match && Number(answer.score) === score && answer.match_rule === (match?.rule ?? null))) {
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('user_answers')
+      .update({
+        is_correct: !!match,
+        score,
+        match_rule: match?.rule ?? null,
+        matched_answer: match?.matchedAnswer ?? null,
+        grading_details: { verdict: grade.verdict, strengths: grade.strengths, gaps: grade.gaps },
+        rubric_results: null,
+        rescored_at: new Date().toISOString()
+      })
+      .eq('id', answer.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+    rescored++;
+  }
+
+  return rescored;
+};
@@ -0,0 +1,64 @@
+// SM-2 spaced repetition: decides when a learner should see a question again
+// based on how well they answered it. Pure and deterministic.
+
+export interface ReviewState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  due_at: string;
+  last_reviewed_at: string;
+}
+
+export const INITIAL_REVIEW_STATE: ReviewState = {
+  ease_factor: 2.5,
+  interval_days: 0,
+  repetitions: 0,
+};
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 grades recall from 0 (blackout) to 5 (perfect); 3 and up counts as recalled
+export const qualityFromScore = (score: number) => Math.round(Math.min(1, Math.max(0, score)) * 5);
+
+export const scheduleReview = (
+  state: ReviewState | null | undefined,
+  quality: number,
+  now: Date = new Date()
+): ScheduledReview => {
+  const previous = state ?? INITIAL_REVIEW_STATE;
+
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (quality >= 3) {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(previous.interval_days * previous.ease_factor);
+    }
+  } else {
+    // A lapse restarts the learning steps
+    repetitions = 0;
+    intervalDays = 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+};
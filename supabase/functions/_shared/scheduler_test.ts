@@ -0,0 +1,38 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { INITIAL_REVIEW_STATE, qualityFromScore, scheduleReview } from './scheduler.ts';
+
+const NOW = new Date('2025-01-01T00:00:00.000Z');
+
+Deno.test('scores map onto the SM-2 quality scale', () => {
+  assertEquals(qualityFromScore(0), 0);
+  assertEquals(qualityFromScore(0.5), 3);
+  assertEquals(qualityFromScore(1), 5);
+  assertEquals(qualityFromScore(1.5), 5);
+  assertEquals(qualityFromScore(-1), 0);
+});
+
+Deno.test('recalled questions come back after 1, then 6 days, then the interval times the ease factor', () => {
+  const first = scheduleReview(null, 5, NOW);
+  assertEquals(first.repetitions, 1);
+  assertEquals(first.interval_days, 1);
+  assertEquals(first.due_at, '2025-01-02T00:00:00.000Z');
+  assertEquals(first.last_reviewed_at, NOW.toISOString());
+
+  const second = scheduleReview(first, 5, NOW);
+  assertEquals(second.interval_days, 6);
+
+  const third = scheduleReview(second, 5, NOW);
+  assertEquals(third.interval_days, Math.round(6 * second.ease_factor));
+});
+
+Deno.test('a lapse restarts the learning steps', () => {
+  const lapsed = scheduleReview({ ease_factor: 2.5, interval_days: 15, repetitions: 3 }, 1, NOW);
+
+  assertEquals(lapsed.repetitions, 0);
+  assertEquals(lapsed.interval_days, 1);
+});
+
+Deno.test('the ease factor rises on perfect recall and never drops below 1.3', () => {
+  assertEquals(scheduleReview(INITIAL_REVIEW_STATE, 5, NOW).ease_factor, 2.6);
+  assertEquals(scheduleReview({ ease_factor: 1.3, interval_days: 1, repetitions: 0 }, 0, NOW).ease_factor, 1.3);
+});
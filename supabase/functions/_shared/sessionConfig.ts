@@ -0,0 +1,42 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+
+// Exam settings chosen on the quiz start screen and stored in quiz_sessions.config.
+// Every field is optional; an empty object is an open-ended, untimed, adaptive practice session.
+export const sessionConfigSchema = z.object({
+  // Questions after which the session ends; null for no limit
+  question_count: z.number().int().min(1).max(200).nullable().default(null),
+  // Time for the whole session; deadline_at is derived from it when the session is created
+  time_limit_seconds: z.number().int().min(30).max(4 * 60 * 60).nullable().default(null),
+  // Time for each question, counted from when it is served
+  question_time_limit_seconds: z.number().int().min(5).max(60 * 60).nullable().default(null),
+  // 'end' withholds grades and the answer key until the session is over
+  feedback: z.enum(['immediate', 'end']).default('immediate'),
+  // Whether difficulty follows the learner's answers
+  adaptive: z.boolean().default(true),
+});
+
+export type SessionConfig = z.infer<typeof sessionConfigSchema>;
+
+// Settings the server cannot make sense of fall back to plain practice rather than failing the session
+export const resolveSessionConfig = (value: unknown): SessionConfig => {
+  const parsed = sessionConfigSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : sessionConfigSchema.parse({});
+};
+
+export const isTimed = (config: SessionConfig) =>
+  config.time_limit_seconds !== null || config.question_time_limit_seconds !== null;
+
+// Answers arriving this long after a deadline still count, to allow for network latency
+export const DEADLINE_GRACE_MS = 5000;
+
+export const isPastDeadline = (deadline: string | null | undefined, graceMs = 0, now = Date.now()) =>
+  !!deadline && now > new Date(deadline).getTime() + graceMs;
+
+// The per-question deadline never runs past the session's own
+export const questionDeadline = (config: SessionConfig, sessionDeadline: string | null, now = Date.now()) => {
+  if (config.question_time_limit_seconds === null) return sessionDeadline;
+
+  const deadline = now + config.question_time_limit_seconds * 1000;
+  const capped = sessionDeadline ? Math.min(deadline, new Date(sessionDeadline).getTime()) : deadline;
+  return new Date(capped).toISOString();
+};
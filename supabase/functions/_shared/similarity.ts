@@ -0,0 +1,88 @@
+// Near-duplicate detection for question text using Jaccard similarity of word shingles
+import { normalizeAnswer } from './answerMatching.ts';
+
+// Word n-gram size; pairs catch reworded questions without matching on shared vocabulary alone
+const SHINGLE_SIZE = 2;
+
+// Questions at or above this similarity count as near-duplicates
+export const DUPLICATE_THRESHOLD = Number(Deno.env.get('DUPLICATE_SIMILARITY_THRESHOLD') || 0.6);
+
+export interface TextItem {
+  id: string;
+  question_text: string;
+}
+
+export const shingles = (text: string): Set<string> => {
+  const words = normalizeAnswer(text).split(' ').filter(Boolean);
+  if (words.length < SHINGLE_SIZE) return new Set(words);
+
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+};
+
+export const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+};
+
+// The most similar existing question at or above the threshold, if any
+export const findNearDuplicate = <T extends TextItem>(
+  text: string,
+  existing: T[],
+  threshold = DUPLICATE_THRESHOLD
+): { question: T; similarity: number } | null => {
+  const candidate = shingles(text);
+  let best: { question: T; similarity: number } | null = null;
+
+  for (const question of existing) {
+    const similarity = jaccard(candidate, shingles(question.question_text));
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { question, similarity };
+    }
+  }
+  return best;
+};
+
+// Group questions that are transitively near-duplicates of each other; singletons are left out
+export const clusterQuestions = <T extends TextItem>(questions: T[], threshold = DUPLICATE_THRESHOLD) => {
+  const sets = questions.map((question) => shingles(question.question_text));
+  const parent = questions.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  const similarities = new Map<string, number>();
+  for (let i = 0; i < questions.length; i++) {
+    for (let j = i + 1; j < questions.length; j++) {
+      const similarity = jaccard(sets[i], sets[j]);
+      if (similarity >= threshold) {
+        parent[find(j)] = find(i);
+        similarities.set(`${i}:${j}`, similarity);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  questions.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  return [...groups.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => {
+      const pairs = members.flatMap((i) => members.filter((j) => j > i).map((j) => similarities.get(`${i}:${j}`) ?? 0));
+      return {
+        questions: members.map((index) => questions[index]),
+        // Highest pairwise similarity inside the cluster
+        similarity: Math.max(...pairs),
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+};
@@ -0,0 +1,34 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { clusterQuestions, findNearDuplicate, jaccard, shingles } from './similarity.ts';
+
+const questions = [
+  { id: 'a', question_text: 'What is the capital city of France?' },
+  { id: 'b', question_text: 'What is the capital city of France called?' },
+  { id: 'c', question_text: 'Which gas do plants absorb from the air?' },
+];
+
+Deno.test('shingles are normalized word pairs', () => {
+  assertEquals([...shingles('The Capital of France!')], ['capital of', 'of france']);
+  assertEquals([...shingles('Paris')], ['paris']);
+});
+
+Deno.test('jaccard similarity is shared over combined shingles', () => {
+  assertEquals(jaccard(new Set(['a', 'b']), new Set(['b', 'c'])), 1 / 3);
+  assertEquals(jaccard(new Set(), new Set()), 1);
+});
+
+Deno.test('the closest question at or above the threshold is the duplicate', () => {
+  const duplicate = findNearDuplicate('What is the capital city of France?', questions);
+
+  assertEquals(duplicate?.question.id, 'a');
+  assertEquals(duplicate?.similarity, 1);
+  assertEquals(findNearDuplicate('How many legs does a spider have?', questions), null);
+});
+
+Deno.test('clusters group near-duplicates and leave singletons out', () => {
+  const clusters = clusterQuestions(questions);
+
+  assertEquals(clusters.length, 1);
+  assertEquals(clusters[0].questions.map((question) => question.id), ['a', 'b']);
+  assert(clusters[0].similarity >= 0.6);
+});
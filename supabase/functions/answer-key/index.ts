@@ -0,0 +1,95 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { answerKeySchema } from '../_shared/questionSchema.ts';
+import { rescoreAnswers } from '../_shared/rescoring.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const KEY_COLUMNS = 'correct_answer, accepted_answers, answer_patterns, answer_mode';
+
+// Lets the owner of a topic read and edit the accepted answers of its questions,
+// which are otherwise never sent to the browser
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { questionId, update } = await req.json();
+
+    if (!questionId) {
+      return jsonResponse({ error: 'questionId is required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: question } = await supabase
+      .from('questions')
+      .select(`id, question_type, ${KEY_COLUMNS}, topics!inner(profiles!inner(user_id))`)
+      .eq('id', questionId)
+      .maybeSingle();
+
+    if (!question || question.topics.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Question not found' }, 404);
+    }
+
+    if (!update) {
+      return jsonResponse({
+        key: {
+          correct_answer: question.correct_answer,
+          accepted_answers: question.accepted_answers,
+          answer_patterns: question.answer_patterns,
+          answer_mode: question.answer_mode
+        }
+      });
+    }
+
+    const parsed = answerKeySchema.safeParse(update);
+    if (!parsed.success) {
+      return jsonResponse({
+        error: 'Invalid answer key',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      }, 422);
+    }
+
+    const { data: key, error: updateError } = await supabase
+      .from('questions')
+      .update(parsed.data)
+      .eq('id', questionId)
+      .select(KEY_COLUMNS)
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    // Past answers the widened key now accepts are re-graded
+    const rescored = await rescoreAnswers(supabase, { id: question.id, question_type: question.question_type, ...key });
+
+    return jsonResponse({ key, rescored });
+
+  } catch (error) {
+    console.error('Error in answer-key function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,124 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const SOURCE_BUCKET = 'topic-sources';
+
+// Everything removed along with a topic, counted across all learners, which the owner cannot see through RLS
+const deletionImpact = async (supabase: SupabaseClient, topicId: string) => {
+  const count = async (table: string, column: string) => {
+    const { count: rows, error } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .eq(column, topicId);
+
+    if (error) {
+      throw error;
+    }
+    return rows ?? 0;
+  };
+
+  const { count: answers, error: answersError } = await supabase
+    .from('user_answers')
+    .select('id, questions!inner(topic_id)', { count: 'exact', head: true })
+    .eq('questions.topic_id', topicId);
+
+  if (answersError) {
+    throw answersError;
+  }
+
+  return {
+    questions: await count('questions', 'topic_id'),
+    sessions: await count('quiz_sessions', 'topic_id'),
+    answers: answers ?? 0,
+    learners: await count('topic_mastery', 'topic_id'),
+    sources: await count('topic_sources', 'topic_id'),
+    // Branched topics are kept and only lose their link to this one
+    subtopics: await count('topics', 'parent_topic_id')
+  };
+};
+
+// Reports what deleting a topic would remove and, once the owner confirms, deletes it
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { topicId, confirm } = await req.json();
+
+    if (!topicId) {
+      return jsonResponse({ error: 'topicId is required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: topic } = await supabase
+      .from('topics')
+      .select('id, title, profiles!inner(user_id)')
+      .eq('id', topicId)
+      .maybeSingle();
+
+    if (!topic || topic.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
+    }
+
+    const impact = await deletionImpact(supabase, topicId);
+
+    if (confirm !== true) {
+      return jsonResponse({ impact });
+    }
+
+    // Uploaded files live outside the database and are not removed by the cascade
+    const { data: sources } = await supabase
+      .from('topic_sources')
+      .select('storage_path')
+      .eq('topic_id', topicId)
+      .not('storage_path', 'is', null);
+
+    const paths = (sources ?? []).map((source) => source.storage_path as string);
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage.from(SOURCE_BUCKET).remove(paths);
+      if (storageError) {
+        console.error('Error removing topic source files:', storageError);
+      }
+    }
+
+    // Questions, sessions, answers, mastery, jobs and sources cascade from the topic
+    const { error: deleteError } = await supabase
+      .from('topics')
+      .delete()
+      .eq('id', topicId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    return jsonResponse({ deleted: true, impact });
+
+  } catch (error) {
+    console.error('Error in delete-topic function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
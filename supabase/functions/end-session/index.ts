@@ -0,0 +1,81 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Reasons a learner can give for ending their own session; timeouts and abandonment are decided server-side
+const LEARNER_END_REASONS = ['completed', 'restarted'];
+
+// Closes a learner's session when they finish it or start over. Closed sessions stay closed.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId, reason = 'completed' } = await req.json();
+
+    if (!sessionId || !LEARNER_END_REASONS.includes(reason)) {
+      return jsonResponse({ error: 'sessionId and a valid reason are required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: session } = await supabase
+      .from('quiz_sessions')
+      .select('id, is_active, end_reason, completed_at, profiles!inner(user_id)')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session || session.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    // Already closed by the learner, a timeout or the idle sweep
+    if (!session.is_active) {
+      return jsonResponse({ ended: false, end_reason: session.end_reason, completed_at: session.completed_at });
+    }
+
+    const { data: closed, error: updateError } = await supabase
+      .from('quiz_sessions')
+      .update({
+        is_active: false,
+        completed_at: new Date().toISOString(),
+        end_reason: reason
+      })
+      .eq('id', sessionId)
+      .eq('is_active', true)
+      .select('end_reason, completed_at')
+      .maybeSingle();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return jsonResponse({ ended: !!closed, ...closed });
+
+  } catch (error) {
+    console.error('Error in end-session function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
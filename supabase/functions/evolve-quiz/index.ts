@@ -1,12 +1,28 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { generateJson } from '../_shared/llm/index.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Difficulty is decided by the rule-based engine in submit-answer; this only adds narrative and suggestions
+interface EvolutionDecision {
+  action: 'continue' | 'evolve_topic' | 'suggest_subtopic';
+  reasoning: string;
+  suggested_topic: string | null;
+  focus_area: string | null;
+  message_to_user: string;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -20,15 +36,26 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
     // Get session details
     const { data: session } = await supabase
       .from('quiz_sessions')
-      .select('*, topics(*)')
+      .select('*, topics(*), profiles!inner(user_id)')
       .eq('id', sessionId)
-      .single();
+      .maybeSingle();
+
+    if (!session || session.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
 
-    if (!session) {
-      throw new Error('Session not found');
+    if (!session.is_active) {
+      return jsonResponse({ error: 'Session is no longer active' }, 409);
     }
 
     // Analyze recent performance
@@ -36,11 +63,6 @@ serve(async (req) => {
     const correctAnswers = recentAnswers.filter((answer: any) => answer.is_correct).length;
     const accuracy = totalAnswers > 0 ? correctAnswers / totalAnswers : 0;
 
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('Gemini API key not found');
-    }
-
     // Create context for AI analysis
     const answersContext = recentAnswers.map((answer: any) => 
       `Q: ${answer.question_text}\nUser Answer: ${answer.user_answer}\nCorrect: ${answer.is_correct ? 'Yes' : 'No'}`
@@ -50,7 +72,7 @@ serve(async (req) => {
 
 Topic: ${session.topics.title}
 Topic Description: ${session.topics.description || ''}
-Current Difficulty: ${session.current_difficulty}
+Current Difficulty: ${session.current_difficulty} (adjusted automatically, do not change it)
 Recent Performance: ${correctAnswers}/${totalAnswers} correct (${Math.round(accuracy * 100)}% accuracy)
 
 Recent Answers:
@@ -59,73 +81,30 @@ ${answersContext}
 Based on this performance, make a decision:
 
 1. If user shows mastery (high accuracy, good understanding): suggest topic evolution or advanced concepts
-2. If user is struggling: adjust difficulty or suggest foundational concepts
-3. If user is progressing well: continue with current approach but vary question types
+2. If user is struggling: suggest a foundational area to focus on
+3. If user is progressing well: continue with current approach
 
 Respond with JSON in this format:
 {
-  "action": "continue" | "increase_difficulty" | "decrease_difficulty" | "evolve_topic" | "suggest_subtopic",
+  "action": "continue" | "evolve_topic" | "suggest_subtopic",
   "reasoning": "Brief explanation of why this action was chosen",
-  "new_difficulty": "easy" | "medium" | "hard" | null,
   "suggested_topic": "New topic suggestion if evolving" | null,
   "focus_area": "Specific area to focus on within current topic" | null,
   "message_to_user": "Encouraging message about their progress"
 }`;
 
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.3,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 512,
-        }
-      }),
+    const evolutionDecision = await generateJson<EvolutionDecision>(prompt, {
+      task: 'evolve-quiz',
+      temperature: 0.3,
+      maxOutputTokens: 512,
+      context: { accuracy, currentDifficulty: session.current_difficulty }
     });
 
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${data.error?.message || 'Unknown error'}`);
-    }
-
-    const generatedText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!generatedText) {
-      throw new Error('No content generated');
-    }
-
-    // Parse the JSON response
-    const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid JSON format in response');
-    }
-
-    const evolutionDecision = JSON.parse(jsonMatch[0]);
-
     // Update session based on AI decision
-    const updates: any = {};
-    
-    if (evolutionDecision.new_difficulty) {
-      updates.current_difficulty = evolutionDecision.new_difficulty;
-    }
-
     if (evolutionDecision.focus_area) {
-      updates.focus_area = evolutionDecision.focus_area;
-    }
-
-    if (Object.keys(updates).length > 0) {
       await supabase
         .from('quiz_sessions')
-        .update(updates)
+        .update({ focus_area: evolutionDecision.focus_area })
         .eq('id', sessionId);
     }
 
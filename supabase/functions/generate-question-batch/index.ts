@@ -0,0 +1,213 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type FunctionsError, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DIFFICULTIES, type Difficulty, type QuestionType } from '../_shared/questionSchema.ts';
+import { allocateQuestionTypes, resolveTypeWeights } from '../_shared/questionMix.ts';
+import { findNearDuplicate, type TextItem } from '../_shared/similarity.ts';
+
+// Lets the job keep running after the response has been sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Upper bound on questions per difficulty in a single job
+const MAX_PER_DIFFICULTY = 20;
+
+// How many generate-question calls run at once
+const BATCH_CONCURRENCY = Number(Deno.env.get('QUESTION_BATCH_CONCURRENCY') || 3);
+
+// Jobs one user may have queued or running at a time
+const MAX_ACTIVE_JOBS_PER_USER = Number(Deno.env.get('MAX_ACTIVE_GENERATION_JOBS') || 2);
+
+interface JobItem {
+  difficulty: Difficulty;
+  question_type: QuestionType;
+  status: 'pending' | 'succeeded' | 'failed';
+  question_id: string | null;
+  error: string | null;
+}
+
+// A non-2xx response from the invoked function arrives as a generic error wrapping the response,
+// whose body carries the actual reason
+const invokeErrorMessage = async (error: FunctionsError) => {
+  const body = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+  return body?.error || error.message;
+};
+
+const runJob = async (supabase: SupabaseClient, jobId: string, topicId: string, items: JobItem[]) => {
+  let completed = 0;
+  let failed = 0;
+  // Questions kept so far, since concurrent calls each only dedupe against what was saved when they started
+  const accepted: TextItem[] = [];
+
+  // Progress writes are chained so an older snapshot never overwrites a newer one
+  let saving = Promise.resolve();
+  const saveProgress = (fields: Record<string, unknown> = {}) => {
+    saving = saving.then(async () => {
+      const { error } = await supabase
+        .from('generation_jobs')
+        .update({ items, completed_items: completed, failed_items: failed, updated_at: new Date().toISOString(), ...fields })
+        .eq('id', jobId);
+      if (error) {
+        console.error('Error saving generation job progress:', error);
+      }
+    });
+    return saving;
+  };
+
+  await saveProgress({ status: 'running', started_at: new Date().toISOString() });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+
+      try {
+        const { data, error } = await supabase.functions.invoke('generate-question', {
+          body: { topicId, difficulty: item.difficulty, questionType: item.question_type }
+        });
+
+        if (error) {
+          throw new Error(await invokeErrorMessage(error));
+        }
+        if (!data?.question) {
+          throw new Error(data?.error || 'No question returned');
+        }
+
+        if (findNearDuplicate(data.question.question_text, accepted)) {
+          await supabase.from('questions').delete().eq('id', data.question.id);
+          throw new Error('Near-duplicate of another question in this batch');
+        }
+        accepted.push({ id: data.question.id, question_text: data.question.question_text });
+
+        item.status = 'succeeded';
+        item.question_id = data.question.id;
+        completed++;
+      } catch (error) {
+        item.status = 'failed';
+        item.error = (error as Error).message;
+        failed++;
+      }
+
+      await saveProgress();
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, BATCH_CONCURRENCY) }, worker));
+    await saveProgress({
+      status: completed > 0 ? 'completed' : 'failed',
+      error: completed > 0 ? null : 'No questions could be generated',
+      finished_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error running generation job:', error);
+    await saveProgress({ status: 'failed', error: (error as Error).message, finished_at: new Date().toISOString() });
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { topicId, distribution } = await req.json();
+
+    const counts = {} as Record<Difficulty, number>;
+    for (const difficulty of DIFFICULTIES) {
+      const count = distribution?.[difficulty] ?? 0;
+      if (!Number.isInteger(count) || count < 0 || count > MAX_PER_DIFFICULTY) {
+        return jsonResponse({ error: `${difficulty} must be a whole number between 0 and ${MAX_PER_DIFFICULTY}` }, 400);
+      }
+      counts[difficulty] = count;
+    }
+
+    if (!topicId || DIFFICULTIES.every((difficulty) => counts[difficulty] === 0)) {
+      return jsonResponse({ error: 'topicId and at least one question are required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // Only the topic owner may fill it with questions
+    const { data: topic } = await supabase
+      .from('topics')
+      .select('id, created_by, question_type_weights, profiles!inner(user_id)')
+      .eq('id', topicId)
+      .maybeSingle();
+
+    if (!topic || topic.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
+    }
+
+    // Each job holds several generate-question calls open, so a user only gets a few at once
+    const { count: activeJobs, error: activeJobsError } = await supabase
+      .from('generation_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('requested_by', topic.created_by)
+      .in('status', ['queued', 'running']);
+
+    if (activeJobsError) {
+      throw activeJobsError;
+    }
+
+    if ((activeJobs ?? 0) >= MAX_ACTIVE_JOBS_PER_USER) {
+      return jsonResponse({ error: `At most ${MAX_ACTIVE_JOBS_PER_USER} generation jobs can run at once; wait for one to finish` }, 429);
+    }
+
+    // Spread each difficulty's questions across types by the topic's weights
+    const typeWeights = resolveTypeWeights(topic.question_type_weights);
+    const items: JobItem[] = DIFFICULTIES.flatMap((difficulty) =>
+      allocateQuestionTypes(typeWeights, counts[difficulty]).map((questionType) => ({
+        difficulty,
+        question_type: questionType,
+        status: 'pending' as const,
+        question_id: null,
+        error: null
+      }))
+    );
+
+    const { data: job, error: jobError } = await supabase
+      .from('generation_jobs')
+      .insert({
+        topic_id: topicId,
+        requested_by: topic.created_by,
+        distribution: counts,
+        items,
+        total_items: items.length
+      })
+      .select('*')
+      .single();
+
+    if (jobError) {
+      throw jobError;
+    }
+
+    EdgeRuntime.waitUntil(runJob(supabase, job.id, topicId, items));
+
+    return jsonResponse({ job }, 202);
+
+  } catch (error) {
+    console.error('Error in generate-question-batch function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
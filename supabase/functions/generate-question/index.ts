@@ -1,34 +1,73 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { generateJson } from '../_shared/llm/index.ts';
+import {
+  isDifficulty,
+  isQuestionType,
+  validateGeneratedQuestion,
+  type GeneratedQuestion
+} from '../_shared/questionSchema.ts';
+import { findNearDuplicate } from '../_shared/similarity.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Focus areas come from model suggestions, so they are kept short and on one line before reaching the prompt
+const MAX_FOCUS_AREA_LENGTH = 100;
+
+const cleanFocusArea = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/\p{Cc}+/gu, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned ? cleaned.slice(0, MAX_FOCUS_AREA_LENGTH) : null;
+};
+
+// Total attempts the model gets at producing a valid, non-duplicate question
+const MAX_GENERATION_ATTEMPTS = Number(Deno.env.get('QUESTION_GENERATION_ATTEMPTS') || 3);
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { topicId, difficulty, questionType } = await req.json();
+    const { topicId, difficulty, questionType, focusArea: rawFocusArea, sourceChunkId } = await req.json();
+    const focusArea = cleanFocusArea(rawFocusArea);
+
+    if (!topicId || !isDifficulty(difficulty) || !isQuestionType(questionType)) {
+      return jsonResponse({ error: 'topicId, a valid difficulty and a valid questionType are required' }, 400);
+    }
 
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Other edge functions call in with the service role; anyone else must own the topic
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const internal = token === supabaseKey;
+    const { data: { user } } = internal ? { data: { user: null } } : await supabase.auth.getUser(token);
+    if (!internal && !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
     // Get topic details
     const { data: topic } = await supabase
       .from('topics')
-      .select('title, description')
+      .select('title, description, auto_publish, profiles!inner(user_id)')
       .eq('id', topicId)
-      .single();
+      .maybeSingle();
 
-    if (!topic) {
-      throw new Error('Topic not found');
+    if (!topic || (!internal && topic.profiles.user_id !== user?.id)) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
     }
 
     // Get existing questions for context
@@ -38,9 +77,49 @@ serve(async (req) => {
       .eq('topic_id', topicId)
       .limit(5);
 
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('Gemini API key not found');
+    // Every question in the topic, to reject near-duplicates before they are saved
+    const { data: topicQuestions, error: topicQuestionsError } = await supabase
+      .from('questions')
+      .select('id, question_text')
+      .eq('topic_id', topicId);
+
+    if (topicQuestionsError) {
+      throw topicQuestionsError;
+    }
+
+    // Ground the question in the topic's source material when it has any, spreading questions
+    // across passages by preferring the least used ones unless a passage was asked for
+    let sourceChunk: { id: string; content: string } | null = null;
+    const { data: chunks, error: chunksError } = await supabase
+      .from('source_chunks')
+      .select('id, content')
+      .eq('topic_id', topicId);
+
+    if (chunksError) {
+      throw chunksError;
+    }
+
+    if (chunks && chunks.length > 0) {
+      if (sourceChunkId) {
+        sourceChunk = chunks.find((chunk) => chunk.id === sourceChunkId) ?? null;
+        if (!sourceChunk) {
+          return jsonResponse({ error: 'sourceChunkId does not belong to this topic' }, 400);
+        }
+      } else {
+        const { data: groundedQuestions } = await supabase
+          .from('questions')
+          .select('source_chunk_id')
+          .eq('topic_id', topicId)
+          .not('source_chunk_id', 'is', null);
+
+        const uses = new Map<string, number>();
+        for (const question of groundedQuestions ?? []) {
+          uses.set(question.source_chunk_id, (uses.get(question.source_chunk_id) ?? 0) + 1);
+        }
+        const fewestUses = Math.min(...chunks.map((chunk) => uses.get(chunk.id) ?? 0));
+        const leastUsed = chunks.filter((chunk) => (uses.get(chunk.id) ?? 0) === fewestUses);
+        sourceChunk = leastUsed[Math.floor(Math.random() * leastUsed.length)];
+      }
     }
 
     const existingQuestionsText = existingQuestions
@@ -50,18 +129,29 @@ serve(async (req) => {
     const prompt = `Generate a ${difficulty} difficulty ${questionType} question for the topic: "${topic.title}".
 
 Topic Description: ${topic.description || ''}
-
+${focusArea ? `Focus Area: ${focusArea}
+` : ''}${sourceChunk ? `
+Source Passage:
+---
+${sourceChunk.content}
+---
+Base the question, its answer and the rationale only on facts stated in the source passage above.
+` : ''}
 ${existingQuestionsText ? `Here are some existing questions for context:\n${existingQuestionsText}\n\n` : ''}
 
 Create a NEW question that:
 1. Is ${difficulty} difficulty level
 2. Is a ${questionType} type question
 3. Is different from the existing questions above
-4. Tests understanding of ${topic.title}
+4. Tests understanding of ${topic.title}${focusArea ? `, specifically ${focusArea}` : ''}
 
-For MCQ questions, provide 4 options.
-For true/false questions, make it a clear true or false statement.
+For MCQ questions, provide exactly 4 distinct options and make correct_answer match one of them exactly.
+For true/false questions, make it a clear true or false statement and set correct_answer to "true" or "false".
 For fill-in-the-blank, use _____ to indicate the blank.
+For fill-in-the-blank and short answer questions, include "accepted_answers" with any other spellings or forms that are equally correct (for example ["water"] for "H2O"),
+optionally "answer_patterns" with regular expressions a correct answer matches in full, and set "answer_mode" to "set" when the answer is a list whose order does not matter.
+For long answer questions, include a "rubric": a list of 2-4 criteria, each with "criterion", "points" and a "descriptor" of what earns them.
+Always include a rationale.
 
 Response format (JSON):
 {
@@ -73,44 +163,73 @@ Response format (JSON):
   "question_type": "${questionType}"
 }`;
 
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
+    // Retry with the validation errors fed back to the model until the output conforms and is new
+    let questionData: GeneratedQuestion | null = null;
+    let issues: string[] = [];
+    let duplicate: ReturnType<typeof findNearDuplicate> = null;
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && !questionData; attempt++) {
+      const attemptPrompt = issues.length > 0
+        ? `${prompt}\n\nYour previous response was rejected for these reasons:\n${issues.map((issue) => `- ${issue}`).join('\n')}\nReturn a corrected JSON object.`
+        : prompt;
+
+      try {
+        const raw = await generateJson(attemptPrompt, {
+          task: 'generate-question',
           temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
           maxOutputTokens: 1024,
+          context: {
+            topicTitle: topic.title,
+            difficulty,
+            questionType,
+            sourcePassage: sourceChunk?.content,
+            questionNumber: (topicQuestions?.length ?? 0) + attempt - 1
+          }
+        });
+
+        const result = validateGeneratedQuestion(raw, questionType, difficulty);
+        duplicate = result.success ? findNearDuplicate(result.question.question_text, topicQuestions ?? []) : null;
+
+        if (!result.success) {
+          issues = result.issues;
+        } else if (duplicate) {
+          issues = [`question_text: too similar to the existing question "${duplicate.question.question_text}", ask about something else`];
+        } else {
+          questionData = result.question;
         }
-      }),
-    });
+      } catch (error) {
+        duplicate = null;
+        issues = [error instanceof SyntaxError ? 'response was not valid JSON' : error.message];
+      }
 
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${data.error?.message || 'Unknown error'}`);
+      if (!questionData) {
+        console.warn(`Generated question rejected (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}):`, issues);
+      }
     }
 
-    const generatedText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!generatedText) {
-      throw new Error('No content generated');
+    if (!questionData && duplicate) {
+      return jsonResponse({
+        error: `Generated question duplicated an existing one after ${MAX_GENERATION_ATTEMPTS} attempts`,
+        duplicate_of: duplicate.question.id,
+        similarity: duplicate.similarity
+      }, 409);
     }
 
-    // Parse the JSON response
-    const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid JSON format in response');
+    if (!questionData) {
+      return jsonResponse({
+        error: `Generated question failed validation after ${MAX_GENERATION_ATTEMPTS} attempts`,
+        issues
+      }, 422);
     }
 
-    const questionData = JSON.parse(jsonMatch[0]);
+    const options = 'options' in questionData ? questionData.options ?? null : null;
+    const answerKey = 'accepted_answers' in questionData
+      ? {
+        accepted_answers: questionData.accepted_answers,
+        answer_patterns: questionData.answer_patterns,
+        answer_mode: questionData.answer_mode
+      }
+      : {};
 
     // Save the generated question to database
     const { data: savedQuestion, error: saveError } = await supabase
@@ -121,42 +240,37 @@ Response format (JSON):
         question_type: questionData.question_type,
         difficulty: questionData.difficulty,
         correct_answer: questionData.correct_answer,
-        options: questionData.options ? JSON.stringify(questionData.options) : null,
+        options: options ? JSON.stringify(options) : null,
         rationale: questionData.rationale,
+        rubric: 'rubric' in questionData ? questionData.rubric ?? null : null,
+        ...answerKey,
+        source_chunk_id: sourceChunk?.id ?? null,
+        source_passage: sourceChunk?.content ?? null,
+        // AI questions wait for the topic owner's review unless the topic auto-publishes
+        status: topic.auto_publish ? 'approved' : 'draft',
         created_by: null // AI generated
       })
-      .select()
+      .select('id, status')
       .single();
 
     if (saveError) {
-      console.error('Error saving question:', saveError);
+      throw saveError;
     }
 
-    return new Response(
-      JSON.stringify({
-        question: {
-          id: savedQuestion?.id || Math.random().toString(36).substr(2, 9),
-          question_text: questionData.question_text,
-          question_type: questionData.question_type,
-          difficulty: questionData.difficulty,
-          correct_answer: questionData.correct_answer,
-          options: questionData.options,
-          rationale: questionData.rationale
-        }
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    // The answer key stays server-side until the learner submits
+    return jsonResponse({
+      question: {
+        id: savedQuestion.id,
+        question_text: questionData.question_text,
+        question_type: questionData.question_type,
+        difficulty: questionData.difficulty,
+        options: options ?? undefined
+      },
+      status: savedQuestion.status
+    });
 
   } catch (error) {
     console.error('Error in generate-question function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return jsonResponse({ error: error.message }, 500);
   }
 });
\ No newline at end of file
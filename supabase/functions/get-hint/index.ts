@@ -0,0 +1,157 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { MAX_HINTS, eliminateDistractors, generateHint, hintPenalty } from '../_shared/hints.ts';
+import { isPastDeadline, resolveSessionConfig } from '../_shared/sessionConfig.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Options are stored as a JSON-encoded array
+const parseOptions = (options: unknown): string[] =>
+  typeof options === 'string' ? JSON.parse(options) : Array.isArray(options) ? options : [];
+
+// Gives the next, stronger hint for the question a learner is currently on.
+// Every hint is recorded, and submit-answer discounts the answer's score by the hints taken.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId, questionId } = await req.json();
+
+    if (!sessionId || !questionId) {
+      return jsonResponse({ error: 'sessionId and questionId are required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: session } = await supabase
+      .from('quiz_sessions')
+      .select('id, is_active, current_question_id, config, deadline_at, question_deadline_at, profiles!inner(user_id)')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session || session.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    if (!session.is_active) {
+      return jsonResponse({ error: 'Session is no longer active' }, 409);
+    }
+
+    // Exams that hold grades until the end are taken without help
+    if (resolveSessionConfig(session.config).feedback === 'end') {
+      return jsonResponse({ error: 'Hints are not available in this session' }, 409);
+    }
+
+    // Hints are only given for the question being shown, before it is answered
+    if (questionId !== session.current_question_id) {
+      return jsonResponse({ error: 'Hints are only available for the current question' }, 409);
+    }
+
+    if (isPastDeadline(session.question_deadline_at) || isPastDeadline(session.deadline_at)) {
+      return jsonResponse({ error: 'Time is up for this question' }, 409);
+    }
+
+    const { data: previousAnswer } = await supabase
+      .from('user_answers')
+      .select('id')
+      .eq('session_id', sessionId)
+      .eq('question_id', questionId)
+      .maybeSingle();
+
+    if (previousAnswer) {
+      return jsonResponse({ error: 'Question already answered in this session' }, 409);
+    }
+
+    const { data: previousHints, error: hintsError } = await supabase
+      .from('question_hints')
+      .select('level, hint, eliminated_options')
+      .eq('session_id', sessionId)
+      .eq('question_id', questionId)
+      .order('level', { ascending: true });
+
+    if (hintsError) {
+      throw hintsError;
+    }
+
+    const level = (previousHints?.length ?? 0) + 1;
+    if (level > MAX_HINTS) {
+      return jsonResponse({ error: 'No more hints for this question' }, 409);
+    }
+
+    const { data: question } = await supabase
+      .from('questions')
+      .select('question_text, question_type, options, correct_answer')
+      .eq('id', questionId)
+      .maybeSingle();
+
+    if (!question) {
+      return jsonResponse({ error: 'Question not found' }, 404);
+    }
+
+    // The second hint on a multiple choice question rules out some of the distractors
+    const eliminatedOptions = level === 2 && question.question_type === 'mcq'
+      ? eliminateDistractors(parseOptions(question.options), question.correct_answer)
+      : [];
+
+    const hint = await generateHint({
+      question: question.question_text,
+      correctAnswer: question.correct_answer,
+      questionType: question.question_type,
+      level,
+      previousHints: (previousHints ?? []).map((previous) => previous.hint),
+      eliminatedOptions
+    });
+
+    const { data: savedHint, error: insertError } = await supabase
+      .from('question_hints')
+      .insert({
+        session_id: sessionId,
+        question_id: questionId,
+        level,
+        hint,
+        eliminated_options: eliminatedOptions
+      })
+      .select('level, hint, eliminated_options')
+      .single();
+
+    if (insertError?.code === '23505') {
+      return jsonResponse({ error: 'A hint is already being prepared' }, 409);
+    }
+    if (insertError) {
+      throw insertError;
+    }
+
+    return jsonResponse({
+      hint: savedHint,
+      hints_used: level,
+      hints_remaining: MAX_HINTS - level,
+      penalty_per_hint: hintPenalty()
+    });
+
+  } catch (error) {
+    console.error('Error in get-hint function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
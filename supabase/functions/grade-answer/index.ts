@@ -1,87 +0,0 @@
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { question, userAnswer, correctAnswer, questionType } = await req.json();
-
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('Gemini API key not found');
-    }
-
-    const prompt = `As an AI tutor, please evaluate this student's answer and provide constructive feedback.
-
-Question: ${question}
-Correct Answer: ${correctAnswer}
-Student's Answer: ${userAnswer}
-Question Type: ${questionType}
-
-Please provide:
-1. Whether the answer is correct, partially correct, or incorrect
-2. Specific feedback on what was good about the answer
-3. What could be improved or what was missing
-4. Any additional learning tips related to this topic
-
-Keep the feedback encouraging but informative. Be specific about what the student got right and what they could improve.
-
-Provide your response in plain text format (not JSON), aimed at helping the student learn.`;
-
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 512,
-        }
-      }),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${data.error?.message || 'Unknown error'}`);
-    }
-
-    const feedback = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!feedback) {
-      throw new Error('No feedback generated');
-    }
-
-    return new Response(
-      JSON.stringify({ feedback }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-
-  } catch (error) {
-    console.error('Error in grade-answer function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
\ No newline at end of file
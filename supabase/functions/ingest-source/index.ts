@@ -0,0 +1,139 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1';
+import { chunkText } from '../_shared/chunking.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const SOURCE_KINDS = ['text', 'markdown', 'pdf'];
+const SOURCE_BUCKET = 'topic-sources';
+
+// Longest source accepted, in characters of extracted text
+const MAX_SOURCE_LENGTH = 500_000;
+
+const readSource = async (supabase: SupabaseClient, kind: string, text: unknown, storagePath: unknown) => {
+  if (typeof text === 'string') return text;
+
+  const { data: file, error } = await supabase.storage.from(SOURCE_BUCKET).download(storagePath as string);
+  if (error || !file) {
+    throw new Error(`Could not download the uploaded file: ${error?.message ?? 'not found'}`);
+  }
+
+  if (kind !== 'pdf') return await file.text();
+
+  const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+  return (pages as string[]).join('\n\n');
+};
+
+// Turns pasted notes or an uploaded document into passages that generate-question can ground questions in
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { topicId, title, kind, text, storagePath } = await req.json();
+
+    if (!topicId || !title || !SOURCE_KINDS.includes(kind) || (typeof text !== 'string') === (typeof storagePath !== 'string')) {
+      return jsonResponse({ error: 'topicId, title, a valid kind and either text or storagePath are required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // Uploads must sit in the caller's own folder
+    if (typeof storagePath === 'string' && !storagePath.startsWith(`${user.id}/`)) {
+      return jsonResponse({ error: 'storagePath must be inside your own folder' }, 403);
+    }
+
+    const { data: topic } = await supabase
+      .from('topics')
+      .select('id, created_by, profiles!inner(user_id)')
+      .eq('id', topicId)
+      .maybeSingle();
+
+    if (!topic || topic.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
+    }
+
+    const { data: source, error: sourceError } = await supabase
+      .from('topic_sources')
+      .insert({
+        topic_id: topicId,
+        created_by: topic.created_by,
+        title,
+        kind,
+        storage_path: typeof storagePath === 'string' ? storagePath : null
+      })
+      .select('id')
+      .single();
+
+    if (sourceError) {
+      throw sourceError;
+    }
+
+    try {
+      const content = await readSource(supabase, kind, text, storagePath);
+      if (content.length > MAX_SOURCE_LENGTH) {
+        throw new Error(`Source is too long (${content.length} characters, at most ${MAX_SOURCE_LENGTH})`);
+      }
+
+      const chunks = chunkText(content);
+      if (chunks.length === 0) {
+        throw new Error('No text could be extracted from the source');
+      }
+
+      const { error: chunksError } = await supabase
+        .from('source_chunks')
+        .insert(chunks.map((chunk, index) => ({
+          source_id: source.id,
+          topic_id: topicId,
+          chunk_index: index,
+          content: chunk
+        })));
+
+      if (chunksError) {
+        throw chunksError;
+      }
+
+      await supabase
+        .from('topic_sources')
+        .update({ status: 'ready' })
+        .eq('id', source.id);
+
+      return jsonResponse({ source: { id: source.id, status: 'ready', chunks: chunks.length } });
+    } catch (error) {
+      // Keep the source row so the owner can see why it failed
+      await supabase
+        .from('topic_sources')
+        .update({ status: 'failed', error: (error as Error).message })
+        .eq('id', source.id);
+
+      return jsonResponse({ error: (error as Error).message, source: { id: source.id, status: 'failed' } }, 422);
+    }
+
+  } catch (error) {
+    console.error('Error in ingest-source function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
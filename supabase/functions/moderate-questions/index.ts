@@ -0,0 +1,192 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { validateGeneratedQuestion } from '../_shared/questionSchema.ts';
+import { rescoreAnswers } from '../_shared/rescoring.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const QUESTION_COLUMNS = 'id, topic_id, question_text, question_type, difficulty, correct_answer, options, rationale, rubric, accepted_answers, answer_patterns, answer_mode, source_passage, status, created_at';
+
+const REPORT_COLUMNS = 'id, reason, details, status, created_at';
+
+// The status a question may move to from each status, per action, and what happens to its open reports
+const TRANSITIONS: Record<string, { to: string; from: string[]; reports: string }> = {
+  approve: { to: 'approved', from: ['draft', 'rejected', 'retired', 'approved', 'quarantined'], reports: 'dismissed' },
+  edit: { to: 'approved', from: ['draft', 'rejected', 'approved', 'quarantined'], reports: 'resolved' },
+  reject: { to: 'rejected', from: ['draft'], reports: 'resolved' },
+  retire: { to: 'retired', from: ['approved', 'quarantined'], reports: 'resolved' },
+};
+
+// Fields an edit may change; the question's type and difficulty stay fixed
+const EDITABLE_FIELDS = ['question_text', 'correct_answer', 'rationale', 'options', 'rubric', 'accepted_answers', 'answer_patterns', 'answer_mode'];
+
+// Options are stored as a JSON-encoded string inside the JSONB column
+const parseOptions = (options: unknown) =>
+  typeof options === 'string' ? JSON.parse(options) : options ?? null;
+
+// Moderation queue for topic owners: list questions by status, or those learners reported,
+// then approve, edit, reject or retire them
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action = 'list', status = 'draft', questionId, changes } = await req.json();
+
+    if (action !== 'list' && (!TRANSITIONS[action] || !questionId)) {
+      return jsonResponse({ error: 'action must be list, approve, edit, reject or retire, with a questionId' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (action === 'list') {
+      // 'reported' lists live or quarantined questions with open learner reports
+      const reported = status === 'reported';
+      let listQuery = supabase
+        .from('questions')
+        .select(`${QUESTION_COLUMNS}, topics!inner(title, created_by), question_reports${reported ? '!inner' : ''}(${REPORT_COLUMNS})`)
+        .eq('topics.created_by', profile?.id)
+        .order('created_at', { ascending: true });
+
+      listQuery = reported
+        ? listQuery.in('status', ['approved', 'quarantined']).eq('question_reports.status', 'open')
+        : listQuery.eq('status', status);
+
+      const { data: questions, error: listError } = await listQuery;
+
+      if (listError) {
+        throw listError;
+      }
+
+      return jsonResponse({
+        questions: questions.map(({ topics, question_reports, ...question }) => ({
+          ...question,
+          topic_title: topics.title,
+          options: parseOptions(question.options),
+          reports: question_reports.filter((report) => report.status === 'open')
+        }))
+      });
+    }
+
+    const { data: question } = await supabase
+      .from('questions')
+      .select(`${QUESTION_COLUMNS}, topics!inner(created_by)`)
+      .eq('id', questionId)
+      .maybeSingle();
+
+    if (!question || !profile || question.topics.created_by !== profile.id) {
+      return jsonResponse({ error: 'Question not found' }, 404);
+    }
+
+    const transition = TRANSITIONS[action];
+    if (!transition.from.includes(question.status)) {
+      return jsonResponse({ error: `Cannot ${action} a question that is ${question.status}` }, 409);
+    }
+
+    let edits = {};
+    if (action === 'edit') {
+      const unsupported = Object.keys(changes ?? {}).filter((field) => !EDITABLE_FIELDS.includes(field));
+      if (unsupported.length > 0) {
+        return jsonResponse({ error: `Cannot edit ${unsupported.join(', ')}` }, 400);
+      }
+
+      // Edited questions must pass the same checks as generated ones
+      const options = parseOptions(question.options);
+      const result = validateGeneratedQuestion({
+        question_text: question.question_text,
+        question_type: question.question_type,
+        difficulty: question.difficulty,
+        correct_answer: question.correct_answer,
+        rationale: question.rationale,
+        options,
+        ...(question.rubric ? { rubric: question.rubric } : {}),
+        ...(question.question_type === 'fill_blank' || question.question_type === 'short_answer'
+          ? {
+            accepted_answers: question.accepted_answers,
+            answer_patterns: question.answer_patterns,
+            answer_mode: question.answer_mode
+          }
+          : {}),
+        ...changes
+      }, question.question_type, question.difficulty);
+
+      if (!result.success) {
+        return jsonResponse({ error: 'Edited question is invalid', issues: result.issues }, 422);
+      }
+
+      const edited = result.question;
+      edits = {
+        question_text: edited.question_text,
+        correct_answer: edited.correct_answer,
+        rationale: edited.rationale,
+        options: 'options' in edited && edited.options ? JSON.stringify(edited.options) : null,
+        rubric: 'rubric' in edited ? edited.rubric ?? null : null,
+        ...('accepted_answers' in edited
+          ? {
+            accepted_answers: edited.accepted_answers,
+            answer_patterns: edited.answer_patterns,
+            answer_mode: edited.answer_mode
+          }
+          : {})
+      };
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('questions')
+      .update({
+        ...edits,
+        status: transition.to,
+        reviewed_by: profile.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', questionId)
+      .select(QUESTION_COLUMNS)
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    await supabase
+      .from('question_reports')
+      .update({ status: transition.reports, resolved_at: new Date().toISOString() })
+      .eq('question_id', questionId)
+      .eq('status', 'open');
+
+    // Learners marked against a wrong key get the credit they were owed
+    const rescored = action === 'edit' ? await rescoreAnswers(supabase, updated) : 0;
+
+    return jsonResponse({ question: { ...updated, options: parseOptions(updated.options) }, rescored });
+
+  } catch (error) {
+    console.error('Error in moderate-questions function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,316 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { enabledTypes, pickQuestionType, resolveTypeWeights } from '../_shared/questionMix.ts';
+import { isPastDeadline, questionDeadline, resolveSessionConfig } from '../_shared/sessionConfig.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface CandidateQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  difficulty: string;
+  options: unknown;
+}
+
+interface PriorAnswer {
+  question_id: string;
+  is_correct: boolean;
+  answered_at: string;
+}
+
+// Lower rank is served first: questions missed last time, then unseen ones, then ones already mastered
+const RANK_MISSED = 0;
+const RANK_UNSEEN = 1;
+const RANK_SEEN_CORRECT = 2;
+
+const rankCandidates = (candidates: CandidateQuestion[], priorAnswers: PriorAnswer[]) => {
+  const latestByQuestion = new Map<string, PriorAnswer>();
+  for (const answer of priorAnswers) {
+    const latest = latestByQuestion.get(answer.question_id);
+    if (!latest || answer.answered_at > latest.answered_at) {
+      latestByQuestion.set(answer.question_id, answer);
+    }
+  }
+
+  const rankOf = (question: CandidateQuestion) => {
+    const latest = latestByQuestion.get(question.id);
+    if (!latest) return RANK_UNSEEN;
+    return latest.is_correct ? RANK_SEEN_CORRECT : RANK_MISSED;
+  };
+
+  const bestRank = Math.min(...candidates.map(rankOf));
+  return candidates.filter((question) => rankOf(question) === bestRank);
+};
+
+// Drafts a topic may have waiting for review before learners stop triggering new ones
+const MAX_PENDING_DRAFTS = Number(Deno.env.get('MAX_PENDING_DRAFTS') || 5);
+
+// Options are stored as a JSON-encoded string inside the JSONB column
+const parseOptions = (options: unknown) =>
+  typeof options === 'string' ? JSON.parse(options) : options ?? undefined;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId } = await req.json();
+
+    if (!sessionId) {
+      return jsonResponse({ error: 'sessionId is required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: session } = await supabase
+      .from('quiz_sessions')
+      .select('id, user_id, topic_id, mode, current_difficulty, focus_area, is_active, question_type_weights, current_question_id, config, deadline_at, question_deadline_at, profiles!inner(user_id), topics(question_type_weights, archived_at, auto_publish, visibility, created_by)')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session || session.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    if (!session.is_active) {
+      return jsonResponse({ error: 'Session is no longer active' }, 409);
+    }
+
+    // Private topics can only be practised by their owner, whoever opened the session
+    if (session.mode === 'practice' && session.topics?.visibility === 'private' && session.topics.created_by !== session.user_id) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
+    }
+
+    // Archived topics keep their history but take no new practice
+    if (session.mode === 'practice' && session.topics?.archived_at) {
+      return jsonResponse({ error: 'Topic is archived' }, 409);
+    }
+
+    const config = resolveSessionConfig(session.config);
+
+    const closeSession = async (endReason: string, completedAt: string) => {
+      await supabase
+        .from('quiz_sessions')
+        .update({ is_active: false, completed_at: completedAt, end_reason: endReason })
+        .eq('id', sessionId);
+    };
+
+    // Out of time: the session ends and the learner goes to their results
+    if (isPastDeadline(session.deadline_at)) {
+      await closeSession('timed_out', session.deadline_at);
+      return jsonResponse({ question: null, source: 'time_up' });
+    }
+
+    const difficulty = session.current_difficulty || 'medium';
+
+    // Never repeat a question within the same session
+    const { data: sessionAnswers } = await supabase
+      .from('user_answers')
+      .select('question_id')
+      .eq('session_id', sessionId);
+
+    const answeredIds = (sessionAnswers ?? []).map((answer) => answer.question_id);
+
+    if (config.question_count !== null && answeredIds.length >= config.question_count) {
+      await closeSession('completed', new Date().toISOString());
+      return jsonResponse({ question: null, source: 'finished' });
+    }
+
+    // Remember what the learner is looking at, so a reload resumes on the same question;
+    // a resumed question keeps the deadline it was first served with
+    const serveQuestion = async (question: CandidateQuestion, source: string) => {
+      const deadline = source === 'resumed'
+        ? session.question_deadline_at
+        : questionDeadline(config, session.deadline_at);
+
+      await supabase
+        .from('quiz_sessions')
+        .update({
+          current_question_id: question.id,
+          question_deadline_at: deadline,
+          last_activity_at: new Date().toISOString()
+        })
+        .eq('id', sessionId);
+
+      // Hints already taken on a resumed question are shown again
+      const { data: hints } = source === 'resumed'
+        ? await supabase
+          .from('question_hints')
+          .select('level, hint, eliminated_options')
+          .eq('session_id', sessionId)
+          .eq('question_id', question.id)
+          .order('level', { ascending: true })
+        : { data: [] };
+
+      return jsonResponse({
+        question: { ...question, options: parseOptions(question.options) },
+        source,
+        deadlines: { session: session.deadline_at, question: deadline },
+        hints: hints ?? []
+      });
+    };
+
+    // A question served but never answered comes back first, so leaving the quiz cannot skip it
+    // It must still belong to the session: its topic in practice, the learner's review items in review
+    if (session.current_question_id && !answeredIds.includes(session.current_question_id)) {
+      let pending: CandidateQuestion | null = null;
+
+      if (session.mode === 'review') {
+        const { data: reviewItem } = await supabase
+          .from('review_items')
+          .select('questions!inner(id, question_text, question_type, difficulty, options)')
+          .eq('user_id', session.user_id)
+          .eq('question_id', session.current_question_id)
+          .eq('questions.status', 'approved')
+          .maybeSingle();
+        pending = reviewItem?.questions ?? null;
+      } else {
+        const { data: topicQuestion } = await supabase
+          .from('questions')
+          .select('id, question_text, question_type, difficulty, options')
+          .eq('id', session.current_question_id)
+          .eq('topic_id', session.topic_id)
+          .eq('status', 'approved')
+          .maybeSingle();
+        pending = topicQuestion;
+      }
+
+      if (pending) {
+        return serveQuestion(pending, 'resumed');
+      }
+    }
+
+    // Review sessions work through the learner's due items across all topics, oldest first
+    if (session.mode === 'review') {
+      let dueQuery = supabase
+        .from('review_items')
+        .select('questions!inner(id, question_text, question_type, difficulty, options)')
+        .eq('user_id', session.user_id)
+        .eq('questions.status', 'approved')
+        .lte('due_at', new Date().toISOString())
+        .order('due_at', { ascending: true })
+        .limit(1);
+
+      if (answeredIds.length > 0) {
+        dueQuery = dueQuery.not('question_id', 'in', `(${answeredIds.join(',')})`);
+      }
+
+      const { data: dueItems, error: dueError } = await dueQuery;
+      if (dueError) {
+        throw dueError;
+      }
+
+      if (!dueItems || dueItems.length === 0) {
+        return jsonResponse({ question: null, source: 'review' });
+      }
+
+      return serveQuestion(dueItems[0].questions, 'review');
+    }
+
+    // The session's chosen question types, falling back to the topic's preferences
+    const typeWeights = resolveTypeWeights(session.question_type_weights, session.topics?.question_type_weights);
+
+    let candidateQuery = supabase
+      .from('questions')
+      .select('id, question_text, question_type, difficulty, options')
+      .eq('topic_id', session.topic_id)
+      .eq('difficulty', difficulty)
+      .eq('status', 'approved')
+      .in('question_type', enabledTypes(typeWeights));
+
+    if (answeredIds.length > 0) {
+      candidateQuery = candidateQuery.not('id', 'in', `(${answeredIds.join(',')})`);
+    }
+
+    const { data: candidates, error: candidateError } = await candidateQuery;
+    if (candidateError) {
+      throw candidateError;
+    }
+
+    if (candidates && candidates.length > 0) {
+      // Look at how the learner did on these questions in earlier sessions
+      const { data: priorAnswers, error: priorError } = await supabase
+        .from('user_answers')
+        .select('question_id, is_correct, answered_at, quiz_sessions!inner(user_id)')
+        .eq('quiz_sessions.user_id', session.user_id)
+        .neq('session_id', sessionId)
+        .in('question_id', candidates.map((question) => question.id));
+
+      if (priorError) {
+        throw priorError;
+      }
+
+      // Pick a type by weight among those on offer, then a question of that type
+      const preferred = rankCandidates(candidates, priorAnswers ?? []);
+      const questionType = pickQuestionType(typeWeights, preferred.map((question) => question.question_type));
+      const ofType = preferred.filter((question) => question.question_type === questionType);
+      const question = ofType[Math.floor(Math.random() * ofType.length)];
+
+      return serveQuestion(question, 'pool');
+    }
+
+    // Generated questions on a reviewed topic only pile up as drafts, so stop once enough are waiting
+    if (!session.topics?.auto_publish) {
+      const { count: pendingDrafts, error: draftsError } = await supabase
+        .from('questions')
+        .select('id', { count: 'exact', head: true })
+        .eq('topic_id', session.topic_id)
+        .eq('status', 'draft');
+
+      if (draftsError) {
+        throw draftsError;
+      }
+
+      if ((pendingDrafts ?? 0) >= MAX_PENDING_DRAFTS) {
+        return jsonResponse({ question: null, source: 'pending_review' });
+      }
+    }
+
+    // The unseen pool for this difficulty is exhausted, so ask the AI for a fresh one
+    const { data: generated, error: generateError } = await supabase.functions.invoke('generate-question', {
+      body: {
+        topicId: session.topic_id,
+        difficulty,
+        questionType: pickQuestionType(typeWeights),
+        focusArea: session.focus_area
+      }
+    });
+
+    if (generateError || !generated?.question) {
+      throw new Error('Failed to generate a new question');
+    }
+
+    // Drafts wait for the topic owner's approval before anyone is quizzed on them
+    if (generated.status !== 'approved') {
+      return jsonResponse({ question: null, source: 'pending_review' });
+    }
+
+    return serveQuestion(generated.question, 'generated');
+
+  } catch (error) {
+    console.error('Error in next-question function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
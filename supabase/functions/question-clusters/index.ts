@@ -0,0 +1,136 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { clusterQuestions, findNearDuplicate } from '../_shared/similarity.ts';
+import { FUZZY_MATCHED_TYPES } from '../_shared/answerMatching.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Lists clusters of near-duplicate questions in a topic for its owner, and merges a cluster on request.
+// Given questionText instead, finds the existing question a new one would duplicate.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { topicId, merge, questionText } = await req.json();
+
+    if (!topicId) {
+      return jsonResponse({ error: 'topicId is required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: topic } = await supabase
+      .from('topics')
+      .select('id, profiles!inner(user_id)')
+      .eq('id', topicId)
+      .maybeSingle();
+
+    if (!topic || topic.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from('questions')
+      .select('id, question_text, question_type, difficulty, correct_answer, accepted_answers, created_at')
+      .eq('topic_id', topicId)
+      .order('created_at', { ascending: true });
+
+    if (questionsError) {
+      throw questionsError;
+    }
+
+    if (typeof questionText === 'string') {
+      const duplicate = findNearDuplicate(questionText, questions);
+      return jsonResponse({
+        duplicate: duplicate
+          ? {
+            id: duplicate.question.id,
+            question_text: duplicate.question.question_text,
+            similarity: Math.round(duplicate.similarity * 100) / 100
+          }
+          : null
+      });
+    }
+
+    if (merge) {
+      const { keepId, mergeIds } = merge;
+      const keep = questions.find((question) => question.id === keepId);
+      const merged = questions.filter((question) => Array.isArray(mergeIds) && mergeIds.includes(question.id) && question.id !== keepId);
+
+      if (!keep || merged.length === 0 || merged.length !== mergeIds.length) {
+        return jsonResponse({ error: 'keepId and mergeIds must be questions of this topic' }, 400);
+      }
+
+      // Typed answers that were correct for a merged question stay correct for the one kept
+      if (FUZZY_MATCHED_TYPES.includes(keep.question_type)) {
+        const acceptedAnswers = new Set(keep.accepted_answers ?? []);
+        for (const question of merged.filter((item) => item.question_type === keep.question_type)) {
+          [question.correct_answer, ...(question.accepted_answers ?? [])]
+            .filter((answer) => answer.toLowerCase().trim() !== keep.correct_answer.toLowerCase().trim())
+            .forEach((answer) => acceptedAnswers.add(answer));
+        }
+
+        const { error: keyError } = await supabase
+          .from('questions')
+          .update({ accepted_answers: [...acceptedAnswers] })
+          .eq('id', keepId);
+
+        if (keyError) {
+          throw keyError;
+        }
+      }
+
+      const { error: mergeError } = await supabase.rpc('merge_questions', {
+        keep_id: keepId,
+        merge_ids: merged.map((question) => question.id)
+      });
+
+      if (mergeError) {
+        throw mergeError;
+      }
+
+      return jsonResponse({ merged: merged.length });
+    }
+
+    // Only what the owner needs to choose which question to keep
+    const clusters = clusterQuestions(questions).map((cluster) => ({
+      similarity: Math.round(cluster.similarity * 100) / 100,
+      questions: cluster.questions.map((question) => ({
+        id: question.id,
+        question_text: question.question_text,
+        question_type: question.question_type,
+        difficulty: question.difficulty,
+        correct_answer: question.correct_answer,
+        created_at: question.created_at
+      }))
+    }));
+
+    return jsonResponse({ clusters });
+
+  } catch (error) {
+    console.error('Error in question-clusters function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
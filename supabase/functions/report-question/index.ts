@@ -0,0 +1,112 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const REPORT_REASONS = ['wrong_answer', 'ambiguous', 'typo', 'offensive'];
+const MAX_DETAILS_LENGTH = 1000;
+
+// Open reports from different learners that take a question out of rotation until its owner reviews it
+const QUARANTINE_THRESHOLD = Number(Deno.env.get('QUESTION_REPORT_THRESHOLD') ?? 3);
+
+// Lets a learner flag a question they answered as wrong, ambiguous, mistyped or offensive
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { questionId, reason, details } = await req.json();
+
+    if (!questionId || !REPORT_REASONS.includes(reason)) {
+      return jsonResponse({ error: `questionId and a reason (${REPORT_REASONS.join(', ')}) are required` }, 400);
+    }
+
+    if (details !== undefined && (typeof details !== 'string' || details.length > MAX_DETAILS_LENGTH)) {
+      return jsonResponse({ error: `details must be text of at most ${MAX_DETAILS_LENGTH} characters` }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    // Only learners who have answered the question can report it
+    const { data: answered } = await supabase
+      .from('user_answers')
+      .select('id, quiz_sessions!inner(user_id)')
+      .eq('question_id', questionId)
+      .eq('quiz_sessions.user_id', profile?.id)
+      .limit(1);
+
+    if (!profile || !answered?.length) {
+      return jsonResponse({ error: 'Question not found' }, 404);
+    }
+
+    const { data: report, error: reportError } = await supabase
+      .from('question_reports')
+      .insert({
+        question_id: questionId,
+        user_id: profile.id,
+        reason,
+        details: details?.trim() || null
+      })
+      .select('id, reason, status, created_at')
+      .single();
+
+    if (reportError?.code === '23505') {
+      return jsonResponse({ error: 'You have already reported this question' }, 409);
+    }
+
+    if (reportError) {
+      throw reportError;
+    }
+
+    const { count: openReports } = await supabase
+      .from('question_reports')
+      .select('id', { count: 'exact', head: true })
+      .eq('question_id', questionId)
+      .eq('status', 'open');
+
+    let quarantined = false;
+    if ((openReports ?? 0) >= QUARANTINE_THRESHOLD) {
+      const { data: updated } = await supabase
+        .from('questions')
+        .update({ status: 'quarantined' })
+        .eq('id', questionId)
+        .eq('status', 'approved')
+        .select('id');
+
+      quarantined = !!updated?.length;
+    }
+
+    return jsonResponse({ report, quarantined });
+
+  } catch (error) {
+    console.error('Error in report-question function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
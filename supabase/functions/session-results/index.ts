@@ -0,0 +1,84 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { resolveSessionConfig } from '../_shared/sessionConfig.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Returns a learner's session with every answer they gave, alongside the answer key
+// and explanations, which are otherwise only sent back one question at a time
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId } = await req.json();
+
+    if (!sessionId) {
+      return jsonResponse({ error: 'sessionId is required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: session } = await supabase
+      .from('quiz_sessions')
+      .select(`
+        id, topic_id, started_at, completed_at, is_active, end_reason, config,
+        total_questions, correct_answers, total_score, current_difficulty,
+        topics(title), profiles!inner(user_id)
+      `)
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session || session.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    // Grades held back until the end of an exam stay hidden while it is still running
+    const withheld = session.is_active && resolveSessionConfig(session.config).feedback === 'end';
+    const { profiles: _owner, correct_answers, total_score, ...sessionFields } = session;
+
+    const { data: answers, error: answersError } = await supabase
+      .from('user_answers')
+      .select(`
+        id, user_answer, is_correct, score, ai_feedback, grading_details, rubric_results, answered_at, rescored_at, hints_used,
+        questions!inner(id, question_text, question_type, difficulty, correct_answer, rationale)
+      `)
+      .eq('session_id', sessionId)
+      .order('answered_at', { ascending: true });
+
+    if (answersError) {
+      throw answersError;
+    }
+
+    return jsonResponse({
+      session: withheld ? sessionFields : { ...sessionFields, correct_answers, total_score },
+      withheld,
+      answers: withheld ? [] : (answers ?? []).map(({ questions, ...answer }) => ({ ...answer, question: questions }))
+    });
+
+  } catch (error) {
+    console.error('Error in session-results function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
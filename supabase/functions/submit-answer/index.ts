@@ -0,0 +1,350 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { recordTopicMastery } from '../_shared/mastery.ts';
+import { qualityFromScore, scheduleReview } from '../_shared/scheduler.ts';
+import { exactMatchResult, gradeWithLlm, gradeWithRubric, type GradeRequest } from '../_shared/grading.ts';
+import { rubricSchema } from '../_shared/questionSchema.ts';
+import { answerKeyOf, matchAnswer, FUZZY_MATCHED_TYPES } from '../_shared/answerMatching.ts';
+import { decideDifficulty, resolveAdaptationConfig, type AdaptationDecision } from '../_shared/adaptation.ts';
+import { DEADLINE_GRACE_MS, isPastDeadline, isTimed, resolveSessionConfig } from '../_shared/sessionConfig.ts';
+import { discountForHints } from '../_shared/hints.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Question types whose answers are open-ended and can earn partial credit from the AI grader
+const LLM_GRADED_TYPES = ['fill_blank', 'short_answer', 'long_answer'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId, questionId, answer } = await req.json();
+
+    if (!sessionId || !questionId || typeof answer !== 'string') {
+      return jsonResponse({ error: 'sessionId, questionId and answer are required' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Identify the caller from their access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // The session must belong to the caller and still be running
+    const { data: session } = await supabase
+      .from('quiz_sessions')
+      .select('id, user_id, topic_id, mode, current_difficulty, is_active, config, deadline_at, question_deadline_at, current_question_id, profiles!inner(user_id), topics(adaptation_config, visibility, created_by)')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session || session.profiles.user_id !== user.id) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    if (!session.is_active) {
+      return jsonResponse({ error: 'Session is no longer active' }, 409);
+    }
+
+    // Private topics can only be practised by their owner, whoever opened the session
+    if (session.mode === 'practice' && session.topics?.visibility === 'private' && session.topics.created_by !== session.user_id) {
+      return jsonResponse({ error: 'Topic not found' }, 404);
+    }
+
+    const config = resolveSessionConfig(session.config);
+
+    // Blank answers are only accepted as the automatic submission when time runs out
+    if (!answer.trim() && !isTimed(config)) {
+      return jsonResponse({ error: 'sessionId, questionId and answer are required' }, 400);
+    }
+
+    // Timed sessions are answered one served question at a time, so per-question limits hold
+    if (isTimed(config) && questionId !== session.current_question_id) {
+      return jsonResponse({ error: 'Only the current question can be answered' }, 409);
+    }
+
+    const timedOut = isPastDeadline(session.question_deadline_at, DEADLINE_GRACE_MS)
+      || isPastDeadline(session.deadline_at, DEADLINE_GRACE_MS);
+
+    const { data: question } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('id', questionId)
+      .maybeSingle();
+
+    // Practice sessions stay on their topic; review sessions only cover the learner's own review items
+    let questionAllowed = question?.topic_id === session.topic_id;
+    if (question && session.mode === 'review') {
+      const { data: reviewItem } = await supabase
+        .from('review_items')
+        .select('id')
+        .eq('user_id', session.user_id)
+        .eq('question_id', questionId)
+        .maybeSingle();
+      questionAllowed = !!reviewItem;
+    }
+
+    // Only live questions are served, so only they can be answered
+    if (!question || !questionAllowed || question.status !== 'approved') {
+      return jsonResponse({ error: 'Question not found' }, 404);
+    }
+
+    const { data: previousAnswer } = await supabase
+      .from('user_answers')
+      .select('id')
+      .eq('session_id', sessionId)
+      .eq('question_id', questionId)
+      .maybeSingle();
+
+    if (previousAnswer) {
+      return jsonResponse({ error: 'Question already answered in this session' }, 409);
+    }
+
+    // Answers matching the key, an accepted alternative or a pattern earn full credit; other open-ended
+    // answers are graded by the AI, criterion by criterion when the question carries a rubric.
+    // Late or blank answers in timed sessions score nothing without being graded.
+    const ungraded = timedOut || !answer.trim();
+    const match = ungraded ? null : matchAnswer(answer, answerKeyOf(question), {
+      fuzzy: FUZZY_MATCHED_TYPES.includes(question.question_type)
+    });
+    const rubric = question.question_type === 'long_answer' && question.rubric
+      ? rubricSchema.safeParse(question.rubric)
+      : null;
+    let grade = exactMatchResult(!!match);
+
+    if (ungraded) {
+      grade = {
+        ...grade,
+        feedback: timedOut ? 'Time ran out before this answer was submitted.' : 'No answer was given before time ran out.'
+      };
+    } else if ((!match || rubric?.success) && LLM_GRADED_TYPES.includes(question.question_type)) {
+      const request: GradeRequest = {
+        question: question.question_text,
+        userAnswer: answer,
+        correctAnswer: question.correct_answer,
+        questionType: question.question_type,
+        acceptedAnswers: question.accepted_answers ?? []
+      };
+
+      try {
+        grade = rubric?.success
+          ? await gradeWithRubric(request, rubric.data)
+          : await gradeWithLlm(request);
+      } catch (error) {
+        console.error('Error grading answer with AI:', error);
+      }
+    }
+
+    const isCorrect = grade.verdict === 'correct';
+
+    // Each hint taken costs part of the credit, for the answer and the mastery estimate alike
+    const { count: hintsUsed, error: hintsError } = await supabase
+      .from('question_hints')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .eq('question_id', questionId);
+
+    if (hintsError) {
+      throw hintsError;
+    }
+
+    const score = discountForHints(grade.score, hintsUsed ?? 0);
+
+    // Recording the answer bumps the session counters in the same statement
+    const { data: savedAnswer, error: insertError } = await supabase
+      .from('user_answers')
+      .insert({
+        session_id: sessionId,
+        question_id: questionId,
+        user_answer: answer,
+        is_correct: isCorrect,
+        score,
+        hints_used: hintsUsed ?? 0,
+        ai_feedback: grade.feedback,
+        // Flags answers that were never graded so a corrected key does not grade them later
+        grading_details: { verdict: grade.verdict, strengths: grade.strengths, gaps: grade.gaps, ...(ungraded ? { ungraded } : {}) },
+        rubric_results: grade.criteria ?? null,
+        match_rule: match?.rule ?? null,
+        matched_answer: match?.matchedAnswer ?? null
+      })
+      .select('id')
+      .single();
+
+    // A concurrent submission for the same question got there first
+    if (insertError?.code === '23505') {
+      return jsonResponse({ error: 'Question already answered in this session' }, 409);
+    }
+    if (insertError) {
+      throw insertError;
+    }
+
+    // Update the learner's mastery of the question's topic
+    const mastery = await recordTopicMastery(supabase, session.user_id, question.topic_id, {
+      score,
+      difficulty: question.difficulty || 'medium',
+      correct: isCorrect
+    });
+
+    // Mixed-topic review sessions have no single mastery to mirror
+    if (session.mode === 'practice') {
+      await supabase
+        .from('quiz_sessions')
+        .update({ mastery_score: Math.round(mastery * 100) / 100 })
+        .eq('id', sessionId);
+    }
+
+    // Schedule the next spaced repetition review of this question
+    const { data: reviewState } = await supabase
+      .from('review_items')
+      .select('ease_factor, interval_days, repetitions')
+      .eq('user_id', session.user_id)
+      .eq('question_id', questionId)
+      .maybeSingle();
+
+    const { error: reviewError } = await supabase
+      .from('review_items')
+      .upsert({
+        user_id: session.user_id,
+        question_id: questionId,
+        ...scheduleReview(reviewState, qualityFromScore(score))
+      }, { onConflict: 'user_id,question_id' });
+
+    if (reviewError) {
+      throw reviewError;
+    }
+
+    // Decide the next difficulty from the answers given since the last change, and log why
+    let difficulty: AdaptationDecision | null = null;
+    if (session.mode === 'practice' && config.adaptive) {
+      const { data: lastChange } = await supabase
+        .from('difficulty_decisions')
+        .select('created_at')
+        .eq('session_id', sessionId)
+        .neq('reason', 'hold')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      let outcomesQuery = supabase
+        .from('user_answers')
+        .select('is_correct')
+        .eq('session_id', sessionId)
+        .order('answered_at', { ascending: true });
+
+      if (lastChange) {
+        outcomesQuery = outcomesQuery.gt('answered_at', lastChange.created_at);
+      }
+
+      const { data: outcomes, error: outcomesError } = await outcomesQuery;
+      if (outcomesError) {
+        throw outcomesError;
+      }
+
+      const adaptationConfig = resolveAdaptationConfig(session.topics?.adaptation_config);
+      difficulty = decideDifficulty(
+        session.current_difficulty || 'medium',
+        (outcomes ?? []).map((outcome) => outcome.is_correct),
+        adaptationConfig
+      );
+
+      const { error: decisionError } = await supabase
+        .from('difficulty_decisions')
+        .insert({
+          session_id: sessionId,
+          answer_id: savedAnswer.id,
+          previous_difficulty: difficulty.previous,
+          next_difficulty: difficulty.next,
+          reason: difficulty.reason,
+          inputs: difficulty.inputs,
+          config: adaptationConfig
+        });
+
+      if (decisionError) {
+        throw decisionError;
+      }
+
+      if (difficulty.next !== difficulty.previous) {
+        await supabase
+          .from('quiz_sessions')
+          .update({ current_difficulty: difficulty.next })
+          .eq('id', sessionId);
+      }
+    }
+
+    const { data: updatedSession, error: sessionError } = await supabase
+      .from('quiz_sessions')
+      .select('total_questions, correct_answers, total_score, mastery_score, current_difficulty')
+      .eq('id', sessionId)
+      .single();
+
+    if (sessionError) {
+      throw sessionError;
+    }
+
+    // The session ends on its last question or once its time is up
+    const countReached = config.question_count !== null && (updatedSession.total_questions ?? 0) >= config.question_count;
+    const finished = countReached || isPastDeadline(session.deadline_at);
+    if (finished) {
+      await supabase
+        .from('quiz_sessions')
+        .update({
+          is_active: false,
+          completed_at: new Date().toISOString(),
+          end_reason: countReached ? 'completed' : 'timed_out'
+        })
+        .eq('id', sessionId);
+    }
+
+    // Grades and the answer key stay hidden until the end when feedback is deferred
+    if (config.feedback === 'end') {
+      return jsonResponse({
+        recorded: true,
+        feedback_deferred: true,
+        finished,
+        session: { total_questions: updatedSession.total_questions }
+      });
+    }
+
+    return jsonResponse({
+      finished,
+      is_correct: isCorrect,
+      score,
+      // Credit the answer earned before the hint discount
+      graded_score: grade.score,
+      hints_used: hintsUsed ?? 0,
+      verdict: grade.verdict,
+      strengths: grade.strengths,
+      gaps: grade.gaps,
+      criteria: grade.criteria ?? null,
+      match_rule: match?.rule ?? null,
+      correct_answer: question.correct_answer,
+      rationale: question.rationale,
+      source_passage: question.source_passage,
+      feedback: grade.feedback,
+      mastery,
+      difficulty,
+      session: updatedSession
+    });
+
+  } catch (error) {
+    console.error('Error in submit-answer function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
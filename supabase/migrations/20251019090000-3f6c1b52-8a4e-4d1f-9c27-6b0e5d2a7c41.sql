@@ -0,0 +1,29 @@
+-- Answers are graded and recorded by the submit-answer edge function only
+DROP POLICY "Users can create their own answers" ON public.user_answers;
+
+-- Keep session counters in step with recorded answers
+CREATE OR REPLACE FUNCTION public.apply_answer_to_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.quiz_sessions
+  SET total_questions = COALESCE(total_questions, 0) + 1,
+      correct_answers = COALESCE(correct_answers, 0) + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END
+  WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER apply_user_answer_to_session
+  AFTER INSERT ON public.user_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_answer_to_session();
+
+-- Counters are owned by the trigger above; clients may only touch session state
+REVOKE UPDATE ON public.quiz_sessions FROM anon, authenticated;
+GRANT UPDATE (current_difficulty, focus_area, evolution_suggestions, is_active, completed_at)
+  ON public.quiz_sessions TO authenticated;
+
+-- Never ship the answer key to the browser
+REVOKE SELECT ON public.questions FROM anon, authenticated;
+GRANT SELECT (id, topic_id, question_text, question_type, difficulty, options, created_by, created_at, updated_at)
+  ON public.questions TO anon, authenticated;
@@ -0,0 +1,25 @@
+-- Per-user, per-topic mastery estimate maintained by the submit-answer edge function
+CREATE TABLE public.topic_mastery (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  mastery NUMERIC(5,4) NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  correct_attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, topic_id)
+);
+
+-- Enable RLS on topic mastery
+ALTER TABLE public.topic_mastery ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own topic mastery" 
+ON public.topic_mastery 
+FOR SELECT 
+USING (user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE TRIGGER update_topic_mastery_updated_at
+  BEFORE UPDATE ON public.topic_mastery
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,39 @@
+-- Per-user, per-question spaced repetition state maintained by the submit-answer edge function
+CREATE TABLE public.review_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+CREATE INDEX review_items_user_due_idx ON public.review_items (user_id, due_at);
+
+-- Enable RLS on review items
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own review items" 
+ON public.review_items 
+FOR SELECT 
+USING (user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE TRIGGER update_review_items_updated_at
+  BEFORE UPDATE ON public.review_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Review sessions draw due questions from every topic, so they have no single topic
+ALTER TABLE public.quiz_sessions 
+ADD COLUMN mode TEXT NOT NULL DEFAULT 'practice' CHECK (mode IN ('practice', 'review'));
+
+ALTER TABLE public.quiz_sessions 
+ALTER COLUMN topic_id DROP NOT NULL;
+
+ALTER TABLE public.quiz_sessions 
+ADD CONSTRAINT quiz_sessions_topic_required CHECK (mode = 'review' OR topic_id IS NOT NULL);
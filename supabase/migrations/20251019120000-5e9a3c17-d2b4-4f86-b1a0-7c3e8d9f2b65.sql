@@ -0,0 +1,31 @@
+-- Per-topic overrides for the rule-based difficulty adaptation engine
+ALTER TABLE public.topics 
+ADD COLUMN adaptation_config JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Audit log of every difficulty decision and the inputs that produced it
+CREATE TABLE public.difficulty_decisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.quiz_sessions(id) ON DELETE CASCADE,
+  answer_id UUID NOT NULL REFERENCES public.user_answers(id) ON DELETE CASCADE,
+  previous_difficulty public.difficulty_level NOT NULL,
+  next_difficulty public.difficulty_level NOT NULL,
+  reason TEXT NOT NULL,
+  inputs JSONB NOT NULL,
+  config JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX difficulty_decisions_session_idx ON public.difficulty_decisions (session_id, created_at);
+
+-- Enable RLS on difficulty decisions
+ALTER TABLE public.difficulty_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view decisions for their own sessions" 
+ON public.difficulty_decisions 
+FOR SELECT 
+USING (session_id IN (SELECT id FROM public.quiz_sessions WHERE user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())));
+
+-- Difficulty is now decided server-side after every answer
+REVOKE UPDATE ON public.quiz_sessions FROM authenticated;
+GRANT UPDATE (focus_area, evolution_suggestions, is_active, completed_at)
+  ON public.quiz_sessions TO authenticated;
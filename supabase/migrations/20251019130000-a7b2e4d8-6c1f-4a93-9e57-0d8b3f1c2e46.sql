@@ -0,0 +1,3 @@
+-- Topics branched from a quiz suggestion remember where they came from
+ALTER TABLE public.topics 
+ADD COLUMN parent_topic_id UUID REFERENCES public.topics(id) ON DELETE SET NULL;
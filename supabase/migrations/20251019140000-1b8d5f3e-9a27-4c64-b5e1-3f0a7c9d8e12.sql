@@ -0,0 +1,27 @@
+-- Partial credit: each answer earns a score from 0 to 1
+ALTER TABLE public.user_answers 
+ADD COLUMN score NUMERIC(4,3) NOT NULL DEFAULT 0;
+
+-- Verdict, strengths and gaps from structured grading
+ALTER TABLE public.user_answers 
+ADD COLUMN grading_details JSONB;
+
+UPDATE public.user_answers SET score = CASE WHEN is_correct THEN 1 ELSE 0 END;
+
+-- Session accuracy aggregates partial credit
+ALTER TABLE public.quiz_sessions 
+ADD COLUMN total_score NUMERIC(8,3) NOT NULL DEFAULT 0;
+
+UPDATE public.quiz_sessions SET total_score = COALESCE(correct_answers, 0);
+
+CREATE OR REPLACE FUNCTION public.apply_answer_to_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.quiz_sessions
+  SET total_questions = COALESCE(total_questions, 0) + 1,
+      correct_answers = COALESCE(correct_answers, 0) + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+      total_score = total_score + NEW.score
+  WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,8 @@
+-- Rubrics for long_answer questions: [{ criterion, points, descriptor }]
+-- Not granted to learners, like the rest of the answer key
+ALTER TABLE public.questions 
+ADD COLUMN rubric JSONB;
+
+-- Per-criterion results of rubric grading: [{ criterion, points, awarded, feedback }]
+ALTER TABLE public.user_answers 
+ADD COLUMN rubric_results JSONB;
@@ -0,0 +1,10 @@
+-- Other spellings or forms of the correct answer that also earn full credit
+-- Not granted to learners, like the rest of the answer key
+ALTER TABLE public.questions 
+ADD COLUMN accepted_answers TEXT[] NOT NULL DEFAULT '{}';
+
+-- How a deterministic match was made (exact, normalized, numeric, typo) and against which accepted answer;
+-- both stay null when the answer was not matched locally
+ALTER TABLE public.user_answers 
+ADD COLUMN match_rule TEXT CHECK (match_rule IN ('exact', 'normalized', 'numeric', 'typo')),
+ADD COLUMN matched_answer TEXT;
@@ -0,0 +1,11 @@
+-- Regular expressions a correct answer matches in full, and whether list answers may come in any order
+-- Not granted to learners, like the rest of the answer key
+ALTER TABLE public.questions 
+ADD COLUMN answer_patterns TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN answer_mode TEXT NOT NULL DEFAULT 'single' CHECK (answer_mode IN ('single', 'set'));
+
+-- Answers can now also be matched as an unordered set or by pattern
+ALTER TABLE public.user_answers 
+DROP CONSTRAINT user_answers_match_rule_check,
+ADD CONSTRAINT user_answers_match_rule_check
+  CHECK (match_rule IN ('exact', 'normalized', 'numeric', 'set', 'pattern', 'typo'));
@@ -0,0 +1,8 @@
+-- Relative weight of each question type, e.g. { "mcq": 3, "fill_blank": 2, "long_answer": 0 }
+-- Null means the built-in default mix; a type with weight 0 is never served or generated
+ALTER TABLE public.topics 
+ADD COLUMN question_type_weights JSONB;
+
+-- The types chosen on the quiz start screen, taking precedence over the topic's weights
+ALTER TABLE public.quiz_sessions 
+ADD COLUMN question_type_weights JSONB;
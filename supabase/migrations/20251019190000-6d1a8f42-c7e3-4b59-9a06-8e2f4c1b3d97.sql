@@ -0,0 +1,29 @@
+-- Background jobs that generate a batch of questions for a topic
+CREATE TABLE public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  topic_id UUID NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  -- Requested questions per difficulty, e.g. { "easy": 10, "medium": 10, "hard": 10 }
+  distribution JSONB NOT NULL,
+  -- One entry per question: { difficulty, question_type, status, question_id, error }
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_items INTEGER NOT NULL DEFAULT 0,
+  completed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX generation_jobs_topic_idx ON public.generation_jobs (topic_id, created_at);
+CREATE INDEX generation_jobs_requested_by_idx ON public.generation_jobs (requested_by, status);
+
+-- Enable RLS on generation jobs; they are created and advanced by the generate-question-batch edge function
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation jobs" 
+ON public.generation_jobs 
+FOR SELECT 
+USING (requested_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
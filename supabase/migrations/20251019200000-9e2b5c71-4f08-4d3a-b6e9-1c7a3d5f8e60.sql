@@ -0,0 +1,25 @@
+-- Merge near-duplicate questions into one, keeping every learner's answer history
+CREATE OR REPLACE FUNCTION public.merge_questions(keep_id UUID, merge_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  -- A learner keeps one review schedule: the surviving question's, otherwise the soonest due merged one
+  DELETE FROM public.review_items r
+  WHERE r.question_id = ANY(merge_ids)
+    AND (
+      EXISTS (SELECT 1 FROM public.review_items k WHERE k.user_id = r.user_id AND k.question_id = keep_id)
+      OR EXISTS (
+        SELECT 1 FROM public.review_items o
+        WHERE o.user_id = r.user_id
+          AND o.question_id = ANY(merge_ids)
+          AND (o.due_at, o.id) < (r.due_at, r.id)
+      )
+    );
+
+  UPDATE public.review_items SET question_id = keep_id WHERE question_id = ANY(merge_ids);
+  UPDATE public.user_answers SET question_id = keep_id WHERE question_id = ANY(merge_ids);
+  DELETE FROM public.questions WHERE id = ANY(merge_ids) AND id <> keep_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Only the question-clusters edge function may merge, after checking topic ownership
+REVOKE EXECUTE ON FUNCTION public.merge_questions(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,63 @@
+-- Source material a topic's questions are generated from: pasted notes or uploaded documents
+CREATE TABLE public.topic_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  topic_id UUID NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('text', 'markdown', 'pdf')),
+  -- Object path in the topic-sources bucket for uploads; null for pasted text
+  storage_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Passages of a source, each small enough to ground a single question
+CREATE TABLE public.source_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id UUID NOT NULL REFERENCES public.topic_sources(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_id, chunk_index)
+);
+
+CREATE INDEX topic_sources_topic_idx ON public.topic_sources (topic_id);
+CREATE INDEX source_chunks_topic_idx ON public.source_chunks (topic_id);
+
+-- The passage a question was generated from, kept even if the source is later removed
+-- Not granted to learners: it is revealed with the answer by submit-answer
+ALTER TABLE public.questions 
+ADD COLUMN source_chunk_id UUID REFERENCES public.source_chunks(id) ON DELETE SET NULL,
+ADD COLUMN source_passage TEXT;
+
+-- Enable RLS on sources; they are chunked and written by the ingest-source edge function
+ALTER TABLE public.topic_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.source_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sources of their own topics" 
+ON public.topic_sources 
+FOR SELECT 
+USING (topic_id IN (SELECT id FROM public.topics WHERE created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())));
+
+CREATE POLICY "Users can view source chunks of their own topics" 
+ON public.source_chunks 
+FOR SELECT 
+USING (topic_id IN (SELECT id FROM public.topics WHERE created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())));
+
+-- Uploaded documents live in a private bucket, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('topic-sources', 'topic-sources', false);
+
+CREATE POLICY "Users can upload their own topic sources" 
+ON storage.objects 
+FOR INSERT 
+TO authenticated 
+WITH CHECK (bucket_id = 'topic-sources' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their own topic sources" 
+ON storage.objects 
+FOR SELECT 
+TO authenticated 
+USING (bucket_id = 'topic-sources' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,24 @@
+-- Question review lifecycle: AI questions start as drafts until the topic owner approves them
+ALTER TABLE public.questions 
+ADD COLUMN status TEXT NOT NULL DEFAULT 'approved' CHECK (status IN ('draft', 'approved', 'rejected', 'retired')),
+ADD COLUMN reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX questions_topic_status_idx ON public.questions (topic_id, status);
+
+-- Owners who trust the generator can publish AI questions without reviewing them
+ALTER TABLE public.topics 
+ADD COLUMN auto_publish BOOLEAN NOT NULL DEFAULT false;
+
+-- Learners only see approved questions; owners see every question of their topics
+DROP POLICY "Anyone can view questions for public topics" ON public.questions;
+
+CREATE POLICY "Anyone can view approved questions for public topics" 
+ON public.questions 
+FOR SELECT 
+USING (
+  (status = 'approved' AND topic_id IN (SELECT id FROM public.topics WHERE is_public = true))
+  OR topic_id IN (SELECT id FROM public.topics WHERE created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()))
+);
+
+GRANT SELECT (status) ON public.questions TO anon, authenticated;
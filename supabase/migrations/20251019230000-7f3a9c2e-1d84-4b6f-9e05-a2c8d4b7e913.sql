@@ -0,0 +1,60 @@
+-- Questions learners report often enough are taken out of rotation until the owner looks at them
+ALTER TABLE public.questions 
+DROP CONSTRAINT questions_status_check,
+ADD CONSTRAINT questions_status_check CHECK (status IN ('draft', 'approved', 'rejected', 'retired', 'quarantined'));
+
+-- Learner reports of wrong, ambiguous or inappropriate questions
+CREATE TABLE public.question_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('wrong_answer', 'ambiguous', 'typo', 'offensive')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (question_id, user_id)
+);
+
+CREATE INDEX question_reports_question_status_idx ON public.question_reports (question_id, status);
+
+ALTER TABLE public.question_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are filed by the report-question edge function only
+CREATE POLICY "Users can view their own reports" 
+ON public.question_reports 
+FOR SELECT 
+USING (user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Topic owners can view reports on their questions" 
+ON public.question_reports 
+FOR SELECT 
+USING (question_id IN (
+  SELECT q.id FROM public.questions q
+  JOIN public.topics t ON t.id = q.topic_id
+  WHERE t.created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+));
+
+-- Answers re-graded after the owner corrects a question's key
+ALTER TABLE public.user_answers 
+ADD COLUMN rescored_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep session counters in step when a recorded answer is re-graded
+CREATE OR REPLACE FUNCTION public.apply_answer_rescore_to_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.quiz_sessions
+  SET correct_answers = COALESCE(correct_answers, 0)
+        + (CASE WHEN NEW.is_correct THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.is_correct THEN 1 ELSE 0 END),
+      total_score = total_score + NEW.score - OLD.score
+  WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER apply_user_answer_rescore_to_session
+  AFTER UPDATE OF is_correct, score ON public.user_answers
+  FOR EACH ROW
+  WHEN (OLD.is_correct IS DISTINCT FROM NEW.is_correct OR OLD.score IS DISTINCT FROM NEW.score)
+  EXECUTE FUNCTION public.apply_answer_rescore_to_session();
@@ -0,0 +1,11 @@
+-- Hand-written questions may only be added to topics the author owns
+DROP POLICY "Authenticated users can create questions" ON public.questions;
+
+CREATE POLICY "Topic owners can create questions" 
+ON public.questions 
+FOR INSERT 
+TO authenticated
+WITH CHECK (
+  created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND topic_id IN (SELECT id FROM public.topics WHERE created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()))
+);
@@ -0,0 +1,22 @@
+-- Topic visibility: public topics are listed, unlisted ones are reachable only by link, private ones only by their owner
+ALTER TABLE public.topics 
+ADD COLUMN visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('private', 'unlisted', 'public')),
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.topics SET visibility = CASE WHEN is_public = false THEN 'private' ELSE 'public' END;
+
+-- is_public now means "open to other learners", which the existing policies check
+CREATE OR REPLACE FUNCTION public.sync_topic_is_public()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_public := NEW.visibility <> 'private';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER sync_topic_is_public
+  BEFORE INSERT OR UPDATE ON public.topics
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_topic_is_public();
+
+CREATE INDEX topics_visibility_idx ON public.topics (visibility) WHERE archived_at IS NULL;
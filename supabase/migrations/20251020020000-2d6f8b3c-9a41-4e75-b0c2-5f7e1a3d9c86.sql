@@ -0,0 +1,58 @@
+-- Track where a session stands so it can be resumed after a reload, and closed once abandoned
+ALTER TABLE public.quiz_sessions 
+ADD COLUMN current_question_id UUID REFERENCES public.questions(id) ON DELETE SET NULL,
+ADD COLUMN last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN end_reason TEXT CHECK (end_reason IN ('completed', 'restarted', 'abandoned'));
+
+UPDATE public.quiz_sessions s
+SET last_activity_at = COALESCE((SELECT max(a.answered_at) FROM public.user_answers a WHERE a.session_id = s.id), s.started_at);
+
+UPDATE public.quiz_sessions SET end_reason = 'completed' WHERE is_active = false;
+
+CREATE INDEX quiz_sessions_active_idx ON public.quiz_sessions (user_id, topic_id) WHERE is_active = true;
+
+GRANT UPDATE (end_reason) ON public.quiz_sessions TO authenticated;
+
+-- Answering counts as activity
+CREATE OR REPLACE FUNCTION public.apply_answer_to_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.quiz_sessions
+  SET total_questions = COALESCE(total_questions, 0) + 1,
+      correct_answers = COALESCE(correct_answers, 0) + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+      total_score = total_score + NEW.score,
+      last_activity_at = now()
+  WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Closes sessions nobody has touched for longer than idle_after; returns how many were closed
+CREATE OR REPLACE FUNCTION public.close_idle_quiz_sessions(idle_after INTERVAL DEFAULT interval '2 hours')
+RETURNS INTEGER AS $$
+DECLARE
+  closed INTEGER;
+BEGIN
+  UPDATE public.quiz_sessions
+  SET is_active = false,
+      completed_at = last_activity_at,
+      end_reason = 'abandoned'
+  WHERE is_active = true
+    AND last_activity_at < now() - idle_after;
+
+  GET DIAGNOSTICS closed = ROW_COUNT;
+  RETURN closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.close_idle_quiz_sessions(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Sweep every 15 minutes. To change the idle time, schedule the job again under the same name
+-- with a different interval, e.g. SELECT public.close_idle_quiz_sessions(interval '30 minutes')
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-idle-quiz-sessions',
+  '*/15 * * * *',
+  $$SELECT public.close_idle_quiz_sessions(interval '2 hours')$$
+);
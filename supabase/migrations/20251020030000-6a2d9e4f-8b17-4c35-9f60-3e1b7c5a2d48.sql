@@ -0,0 +1,57 @@
+-- Exam settings chosen when the session starts: question count, time limits, when feedback is shown and adaptation
+ALTER TABLE public.quiz_sessions 
+ADD COLUMN config JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(config) = 'object'),
+ADD COLUMN deadline_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN question_deadline_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.quiz_sessions 
+DROP CONSTRAINT quiz_sessions_end_reason_check,
+ADD CONSTRAINT quiz_sessions_end_reason_check CHECK (end_reason IN ('completed', 'restarted', 'abandoned', 'timed_out'));
+
+-- The clock starts when the session is created, whatever the client sends
+CREATE OR REPLACE FUNCTION public.set_quiz_session_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.started_at := now();
+  NEW.deadline_at := CASE
+    WHEN jsonb_typeof(NEW.config -> 'time_limit_seconds') = 'number'
+      THEN NEW.started_at + make_interval(secs => (NEW.config ->> 'time_limit_seconds')::double precision)
+    ELSE NULL
+  END;
+  NEW.question_deadline_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER set_quiz_session_deadline
+  BEFORE INSERT ON public.quiz_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_quiz_session_deadline();
+
+-- The sweep also closes timed sessions whose learner left before the time ran out
+CREATE OR REPLACE FUNCTION public.close_idle_quiz_sessions(idle_after INTERVAL DEFAULT interval '2 hours')
+RETURNS INTEGER AS $$
+DECLARE
+  closed INTEGER;
+  timed_out INTEGER;
+BEGIN
+  UPDATE public.quiz_sessions
+  SET is_active = false,
+      completed_at = deadline_at,
+      end_reason = 'timed_out'
+  WHERE is_active = true
+    AND deadline_at < now();
+
+  GET DIAGNOSTICS timed_out = ROW_COUNT;
+
+  UPDATE public.quiz_sessions
+  SET is_active = false,
+      completed_at = last_activity_at,
+      end_reason = 'abandoned'
+  WHERE is_active = true
+    AND last_activity_at < now() - idle_after;
+
+  GET DIAGNOSTICS closed = ROW_COUNT;
+  RETURN closed + timed_out;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
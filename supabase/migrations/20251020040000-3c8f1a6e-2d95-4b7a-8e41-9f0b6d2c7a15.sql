@@ -0,0 +1,27 @@
+-- Hints a learner asked for on a question, one row per level, served by the get-hint edge function
+CREATE TABLE public.question_hints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.quiz_sessions(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  level INTEGER NOT NULL CHECK (level BETWEEN 1 AND 3),
+  hint TEXT NOT NULL,
+  -- Multiple choice options ruled out by the hint
+  eliminated_options TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, question_id, level)
+);
+
+ALTER TABLE public.question_hints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view hints from their own sessions" 
+ON public.question_hints 
+FOR SELECT 
+USING (session_id IN (
+  SELECT s.id FROM public.quiz_sessions s
+  JOIN public.profiles p ON p.id = s.user_id
+  WHERE p.user_id = auth.uid()
+));
+
+-- Hints taken before answering; each one discounts the answer's score
+ALTER TABLE public.user_answers 
+ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0 CHECK (hints_used >= 0);
@@ -0,0 +1,9 @@
+-- Sessions are opened with their settings only; counters, scores, deadlines and the served question belong to the server
+REVOKE INSERT ON public.quiz_sessions FROM anon, authenticated;
+GRANT INSERT (user_id, topic_id, mode, focus_area, config, question_type_weights)
+  ON public.quiz_sessions TO authenticated;
+
+-- Sessions are closed by the end-session edge function, so a finished session cannot be reopened
+REVOKE UPDATE ON public.quiz_sessions FROM anon, authenticated;
+GRANT UPDATE (focus_area, evolution_suggestions)
+  ON public.quiz_sessions TO authenticated;
@@ -0,0 +1,30 @@
+-- Heartbeat of a running generation job, bumped with every progress write
+ALTER TABLE public.generation_jobs 
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Fails jobs whose worker stopped without finishing them; returns how many were failed
+CREATE OR REPLACE FUNCTION public.fail_stale_generation_jobs(stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS INTEGER AS $$
+DECLARE
+  failed INTEGER;
+BEGIN
+  UPDATE public.generation_jobs
+  SET status = 'failed',
+      error = 'Generation stopped before the job finished',
+      finished_at = now(),
+      updated_at = now()
+  WHERE status IN ('queued', 'running')
+    AND updated_at < now() - stale_after;
+
+  GET DIAGNOSTICS failed = ROW_COUNT;
+  RETURN failed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_generation_jobs(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'fail-stale-generation-jobs',
+  '*/5 * * * *',
+  $$SELECT public.fail_stale_generation_jobs(interval '10 minutes')$$
+);
@@ -0,0 +1,25 @@
+-- Time limits in the client-written config are held to the range the exam settings offer,
+-- so a session can neither run for days nor be timed out before it starts
+CREATE OR REPLACE FUNCTION public.set_quiz_session_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF jsonb_typeof(NEW.config -> 'time_limit_seconds') = 'number' THEN
+    NEW.config := jsonb_set(NEW.config, '{time_limit_seconds}',
+      to_jsonb(LEAST(14400, GREATEST(30, round((NEW.config ->> 'time_limit_seconds')::numeric)))));
+  END IF;
+
+  IF jsonb_typeof(NEW.config -> 'question_time_limit_seconds') = 'number' THEN
+    NEW.config := jsonb_set(NEW.config, '{question_time_limit_seconds}',
+      to_jsonb(LEAST(3600, GREATEST(5, round((NEW.config ->> 'question_time_limit_seconds')::numeric)))));
+  END IF;
+
+  NEW.started_at := now();
+  NEW.deadline_at := CASE
+    WHEN jsonb_typeof(NEW.config -> 'time_limit_seconds') = 'number'
+      THEN NEW.started_at + make_interval(secs => (NEW.config ->> 'time_limit_seconds')::double precision)
+    ELSE NULL
+  END;
+  NEW.question_deadline_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
@@ -0,0 +1,49 @@
+-- One Bayesian Knowledge Tracing step, mirroring updateMastery in supabase/functions/_shared/mastery.ts
+CREATE OR REPLACE FUNCTION public.next_mastery(prior NUMERIC, answer_score NUMERIC, p_learn NUMERIC, p_slip NUMERIC, p_guess NUMERIC)
+RETURNS NUMERIC AS $$
+  WITH known AS (
+    SELECT LEAST(0.9999, GREATEST(0.0001, prior)) AS p,
+           LEAST(1, GREATEST(0, answer_score)) AS s
+  ), posterior AS (
+    SELECT s * (p * (1 - p_slip)) / (p * (1 - p_slip) + (1 - p) * p_guess)
+         + (1 - s) * (p * p_slip) / (p * p_slip + (1 - p) * (1 - p_guess)) AS p
+    FROM known
+  )
+  SELECT round(LEAST(0.9999, GREATEST(0.0001, p + (1 - p) * p_learn)), 4) FROM posterior;
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+-- Records an answer against a learner's topic mastery in one statement, so concurrent
+-- answers each build on the other's update instead of overwriting it
+CREATE OR REPLACE FUNCTION public.record_topic_mastery(
+  target_user_id UUID,
+  target_topic_id UUID,
+  answer_score NUMERIC,
+  answered_correctly BOOLEAN,
+  p_init NUMERIC,
+  p_learn NUMERIC,
+  p_slip NUMERIC,
+  p_guess NUMERIC
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  updated NUMERIC;
+BEGIN
+  INSERT INTO public.topic_mastery AS current (user_id, topic_id, mastery, attempts, correct_attempts)
+  VALUES (
+    target_user_id,
+    target_topic_id,
+    public.next_mastery(p_init, answer_score, p_learn, p_slip, p_guess),
+    1,
+    CASE WHEN answered_correctly THEN 1 ELSE 0 END
+  )
+  ON CONFLICT (user_id, topic_id) DO UPDATE
+  SET mastery = public.next_mastery(current.mastery, answer_score, p_learn, p_slip, p_guess),
+      attempts = current.attempts + 1,
+      correct_attempts = current.correct_attempts + EXCLUDED.correct_attempts
+  RETURNING mastery INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.record_topic_mastery(UUID, UUID, NUMERIC, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,13 @@
+-- Sessions can only be opened on topics the learner may see: open ones, or their own private ones
+DROP POLICY "Users can create their own quiz sessions" ON public.quiz_sessions;
+
+CREATE POLICY "Users can create their own quiz sessions" 
+ON public.quiz_sessions 
+FOR INSERT 
+WITH CHECK (
+  user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND (
+    topic_id IS NULL
+    OR topic_id IN (SELECT id FROM public.topics WHERE is_public = true OR created_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid()))
+  )
+);
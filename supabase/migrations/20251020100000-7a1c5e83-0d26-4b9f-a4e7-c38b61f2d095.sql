@@ -0,0 +1,3 @@
+-- The focus area feeds question prompts, so only evolve-quiz sets it, after checking the session owner
+REVOKE INSERT (focus_area) ON public.quiz_sessions FROM authenticated;
+REVOKE UPDATE (focus_area) ON public.quiz_sessions FROM authenticated;
@@ -0,0 +1,42 @@
+-- A session answers each question once, so concurrent submissions cannot both be counted
+DELETE FROM public.user_answers a
+USING public.user_answers b
+WHERE a.session_id = b.session_id
+  AND a.question_id = b.question_id
+  AND (a.answered_at, a.id) > (b.answered_at, b.id);
+
+ALTER TABLE public.user_answers
+ADD CONSTRAINT user_answers_session_question_key UNIQUE (session_id, question_id);
+
+-- Merge near-duplicate questions into one, keeping every learner's answer history
+CREATE OR REPLACE FUNCTION public.merge_questions(keep_id UUID, merge_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  -- A learner keeps one review schedule: the surviving question's, otherwise the soonest due merged one
+  DELETE FROM public.review_items r
+  WHERE r.question_id = ANY(merge_ids)
+    AND (
+      EXISTS (SELECT 1 FROM public.review_items k WHERE k.user_id = r.user_id AND k.question_id = keep_id)
+      OR EXISTS (
+        SELECT 1 FROM public.review_items o
+        WHERE o.user_id = r.user_id
+          AND o.question_id = ANY(merge_ids)
+          AND (o.due_at, o.id) < (r.due_at, r.id)
+      )
+    );
+
+  -- A session that answered several of the duplicates keeps only its first answer
+  DELETE FROM public.user_answers a
+  WHERE (a.question_id = keep_id OR a.question_id = ANY(merge_ids))
+    AND EXISTS (
+      SELECT 1 FROM public.user_answers o
+      WHERE o.session_id = a.session_id
+        AND (o.question_id = keep_id OR o.question_id = ANY(merge_ids))
+        AND (o.answered_at, o.id) < (a.answered_at, a.id)
+    );
+
+  UPDATE public.review_items SET question_id = keep_id WHERE question_id = ANY(merge_ids);
+  UPDATE public.user_answers SET question_id = keep_id WHERE question_id = ANY(merge_ids);
+  DELETE FROM public.questions WHERE id = ANY(merge_ids) AND id <> keep_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
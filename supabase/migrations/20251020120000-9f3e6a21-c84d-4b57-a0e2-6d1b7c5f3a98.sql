@@ -0,0 +1,3 @@
+-- Mastery updates are computed by submit-answer and written with a compare-and-swap on the attempt count
+DROP FUNCTION public.record_topic_mastery(UUID, UUID, NUMERIC, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC);
+DROP FUNCTION public.next_mastery(NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC);
@@ -0,0 +1,54 @@
+-- An exam that shows feedback at the end keeps its grades from the learner until it is over,
+-- whether they are read through session-results or straight from the tables
+
+-- Answers of such an exam only become readable once it has ended
+DROP POLICY "Users can view their own answers" ON public.user_answers;
+
+CREATE POLICY "Users can view their own answers" 
+ON public.user_answers 
+FOR SELECT 
+USING (session_id IN (
+  SELECT id FROM public.quiz_sessions
+  WHERE user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND NOT (is_active AND config->>'feedback' = 'end')
+));
+
+-- Mastery moves with every graded answer, so it is held back on the exam's topic as well
+DROP POLICY "Users can view their own topic mastery" ON public.topic_mastery;
+
+CREATE POLICY "Users can view their own topic mastery" 
+ON public.topic_mastery 
+FOR SELECT 
+USING (
+  user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions s
+    WHERE s.user_id = topic_mastery.user_id
+      AND s.topic_id = topic_mastery.topic_id
+      AND s.is_active
+      AND s.config->>'feedback' = 'end'
+  )
+);
+
+-- Session scores are no longer readable from the table itself...
+REVOKE SELECT ON public.quiz_sessions FROM anon, authenticated;
+GRANT SELECT (
+  id, user_id, topic_id, mode, config, is_active, end_reason, started_at, completed_at, last_activity_at,
+  total_questions, current_difficulty, current_question_id, deadline_at, question_deadline_at,
+  focus_area, question_type_weights, evolution_suggestions
+) ON public.quiz_sessions TO authenticated;
+
+-- ...but through this view of the learner's own sessions, which blanks them while such an exam runs
+CREATE VIEW public.learner_quiz_sessions WITH (security_barrier = true) AS
+SELECT
+  s.id, s.user_id, s.topic_id, s.mode, s.config, s.is_active, s.end_reason, s.started_at, s.completed_at, s.last_activity_at,
+  s.total_questions, s.current_difficulty, s.current_question_id, s.deadline_at, s.question_deadline_at,
+  s.focus_area, s.question_type_weights, s.evolution_suggestions,
+  CASE WHEN s.is_active AND s.config->>'feedback' = 'end' THEN NULL ELSE s.correct_answers END AS correct_answers,
+  CASE WHEN s.is_active AND s.config->>'feedback' = 'end' THEN NULL ELSE s.total_score END AS total_score,
+  CASE WHEN s.is_active AND s.config->>'feedback' = 'end' THEN NULL ELSE s.mastery_score END AS mastery_score
+FROM public.quiz_sessions s
+WHERE s.user_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid());
+
+REVOKE ALL ON public.learner_quiz_sessions FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public.learner_quiz_sessions TO authenticated;